@@ -0,0 +1,119 @@
+/**
+ * Example test running pollyTest tests concurrently.
+ *
+ * Each fetch request is recorded into, and replayed from, the recording of the test
+ * that made it, even while other tests are making requests.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/concurrent-tests.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/concurrent-tests.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import { join, resolve } from 'node:path';
+import { createPollyTest, setupNetworkRecorder } from '../src';
+
+const PORT = 45744;
+const BASE_URL = `http://localhost:${PORT}`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+const server = http.createServer((req, res) => {
+  const [, , id, posts] = req.url!.split('/');
+  res.setHeader('content-type', 'application/json');
+  // Slow responses, so the tests' requests overlap when recording
+  setTimeout(() => {
+    res.end(JSON.stringify(posts ? [{ userId: id, title: `Post by ${id}` }] : { id, at: Date.now() }));
+  }, 50);
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// Two configs in one file, each with its own snapshot settings
+const pollyTestIgnoringTimes = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+  snapshotIgnorePaths: ['$.at'],
+});
+
+const pollyTest = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+  strict: true,
+});
+
+// Resolves once both concurrent tests have made their first request
+let started = 0;
+let releaseBoth: () => void;
+const bothStarted = new Promise<void>((resolve) => (releaseBoth = resolve));
+
+async function fetchUserAndPosts(id: string) {
+  const user = await (await fetch(`${BASE_URL}/users/${id}`)).json();
+  if (++started === 2) {
+    releaseBoth();
+  }
+  await bothStarted;
+  const posts = await (await fetch(new Request(`${BASE_URL}/users/${id}/posts`))).json();
+  return { user, posts };
+}
+
+async function readRecordedUrls(recordingName: string): Promise<string[]> {
+  const recorder = setupNetworkRecorder({ recordingName, recordingsDir: resolve(RECORDINGS_DIR), mode: 'replay' });
+  await recorder.start();
+  const recordingId = recorder.getRecordingId()!;
+  await recorder.stop();
+
+  const har = JSON.parse(readFileSync(join(RECORDINGS_DIR, recordingId, 'recording.har'), 'utf-8'));
+  return har.log.entries.map((entry: { request: { url: string } }) => entry.request.url);
+}
+
+describe('Concurrent tests', () => {
+  pollyTest.concurrent('fetches user 1 and their posts', async () => {
+    const { user, posts } = await fetchUserAndPosts('1');
+    expect(user.id).toBe('1');
+    expect(posts).toEqual([{ userId: '1', title: 'Post by 1' }]);
+  });
+
+  pollyTest.concurrent('fetches user 2 and their posts', async () => {
+    const { user, posts } = await fetchUserAndPosts('2');
+    expect(user.id).toBe('2');
+    expect(posts).toEqual([{ userId: '2', title: 'Post by 2' }]);
+  });
+
+  test('records each request in the recording of its test', async () => {
+    expect(await readRecordedUrls('concurrent-tests.test/fetches-user-1-and-their-posts')).toEqual([
+      `${BASE_URL}/users/1`,
+      `${BASE_URL}/users/1/posts`,
+    ]);
+    expect(await readRecordedUrls('concurrent-tests.test/fetches-user-2-and-their-posts')).toEqual([
+      `${BASE_URL}/users/2`,
+      `${BASE_URL}/users/2/posts`,
+    ]);
+  });
+
+  pollyTestIgnoringTimes('snapshots with the settings of its own config', async ({ snapshot }) => {
+    const user = await (await fetch(`${BASE_URL}/users/3`)).json();
+    // Only the first config ignores $.at, which changes on every request
+    await snapshot({ ...user, at: Date.now() });
+  });
+
+  test('rejects time control in tests running at the same time', async () => {
+    const options = {
+      recordingName: 'concurrent-tests.test/fetches-user-1-and-their-posts',
+      recordingsDir: resolve(RECORDINGS_DIR),
+      mode: 'replay' as const,
+      timeControl: true,
+    };
+    const first = setupNetworkRecorder(options);
+    const second = setupNetworkRecorder(options);
+
+    await first.start();
+    try {
+      expect(first.getTimeContext()).not.toBeNull();
+      await expect(second.start()).rejects.toThrow("tests using timeControl can't run concurrently");
+    } finally {
+      await first.stop();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Example test checking recordings against a live API with verify mode.
+ *
+ * Verify mode (VERIFY_APIS=true, or `pollytest --verify`) sends requests to the
+ * real API like real mode, but instead of saving the responses it compares them
+ * with the recordings and fails the test when their status, headers or shape drifted.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/contract-drift.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/contract-drift.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import http from 'node:http';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createPollyTest, DRIFT_REPORT_ENV, setupNetworkRecorder, type VerifyOptions } from '../src';
+import { runTests } from '../src/runner';
+
+const PORT = 45737;
+const USER_URL = `http://localhost:${PORT}/users/1`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+// What the server sends for a user; tests below change it to simulate an API change
+let user: Record<string, unknown> = { id: 1, name: 'Ada', email: 'ada@example.com' };
+
+const server = http.createServer((_req, res) => {
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(user));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({ recordingsDir: RECORDINGS_DIR });
+
+// Set by the first test, verified against the changed server below
+let userRecording = '';
+
+/**
+ * Fetch the user in verify mode against the recording made by the first test.
+ */
+async function verifyUser(verify?: VerifyOptions): Promise<void> {
+  const recorder = setupNetworkRecorder({
+    recordingName: userRecording,
+    recordingsDir: resolve(RECORDINGS_DIR),
+    mode: 'verify',
+    verify,
+  });
+  await recorder.start();
+  try {
+    await fetch(USER_URL);
+    recorder.verifyContract();
+  } finally {
+    await recorder.stop();
+  }
+}
+
+describe('Contract drift', () => {
+  pollyTest('fetches a user', 'user', async ({ recordingName }) => {
+    userRecording = recordingName;
+    const response = await fetch(USER_URL);
+    expect(await response.json()).toEqual({ id: 1, name: 'Ada', email: 'ada@example.com' });
+  });
+
+  test.skipIf(process.env.REAL_APIS === 'true')('passes when only values changed', async () => {
+    user = { id: 1, name: 'Grace', email: 'grace@example.com' };
+    await verifyUser();
+  });
+
+  test.skipIf(process.env.REAL_APIS === 'true')('reports responses whose shape changed', async () => {
+    user = { id: '1', name: 'Ada' };
+    const error = await verifyUser().catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(`GET ${USER_URL}`);
+    expect((error as Error).message).toContain('body  $.email: missing, expected "string"');
+    expect((error as Error).message).toContain('body  $.id: expected "number" got "string"');
+  });
+
+  test.skipIf(process.env.REAL_APIS === 'true')("adds drift it only warns about to the drift report", async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pollytest-drift-'));
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    process.env[DRIFT_REPORT_ENV] = join(dir, 'drift.tsv');
+    try {
+      user = { id: '1', name: 'Ada' };
+      await verifyUser({ onDrift: 'warn' });
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('body  $.email: missing, expected "string"'));
+      expect(readFileSync(join(dir, 'drift.tsv'), 'utf-8')).toMatch(/^contract-drift-test_\d+\/.+\/recording\.har\t1\n$/);
+    } finally {
+      delete process.env[DRIFT_REPORT_ENV];
+      warn.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('pollytest --verify', () => {
+  /**
+   * Run `pollytest --verify` with a test command that runs script, returning what it printed.
+   */
+  async function runVerify(script: string): Promise<string[]> {
+    const dir = mkdtempSync(join(tmpdir(), 'pollytest-runner-'));
+    writeFileSync(join(dir, 'tests.js'), script);
+    const printed: string[] = [];
+    const log = spyOn(console, 'log').mockImplementation((line: string) => printed.push(line));
+    const warn = spyOn(console, 'warn').mockImplementation((line: string) => printed.push(line));
+    // The runner reads its flags from the command line too
+    const argv = process.argv;
+    process.argv = argv.slice(0, 2);
+    try {
+      await runTests({ mode: 'verify', testCommand: `"${process.execPath}" "${join(dir, 'tests.js')}"` });
+    } finally {
+      process.argv = argv;
+      log.mockRestore();
+      warn.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+    return printed;
+  }
+
+  test('reports matching recordings when nothing drifted', async () => {
+    expect(await runVerify('')).toContain('\nLive responses match the recordings.');
+  });
+
+  test('summarizes drift that tests only warned about', async () => {
+    const printed = await runVerify(
+      `require('node:fs').appendFileSync(process.env.${DRIFT_REPORT_ENV}, 'users-test_1/fetches-a-user_2/recording.har\\t2\\n');`
+    );
+
+    expect(printed).not.toContain('\nLive responses match the recordings.');
+    expect(printed).toContain(
+      "\n2 live response(s) in 1 recording(s) drifted from the recordings (reported as warnings, since onDrift is 'warn')."
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Example test matching GraphQL requests by operation rather than by raw body.
+ *
+ * With `requestMatching.graphql`, requests match on operation name, normalized
+ * query and variables, so reformatting a query doesn't break replay.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/graphql.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/graphql.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import http from 'node:http';
+import { createPollyTest } from '../src';
+
+const PORT = 45734;
+const GRAPHQL_URL = `http://localhost:${PORT}/graphql`;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    const { variables } = JSON.parse(body);
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ data: { user: { id: variables.id, name: 'Ada', role: variables.role } } }));
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+type User = { id: string; name: string; role?: string };
+type GetUserResponse = { data: { user: User } };
+
+async function graphql(body: Record<string, unknown>): Promise<GetUserResponse> {
+  const response = await fetch(GRAPHQL_URL, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return response.json() as Promise<GetUserResponse>;
+}
+
+const GET_USER = `
+  query GetUser($id: ID!, $role: String) {
+    user(id: $id, role: $role) {
+      id
+      name
+      role
+    }
+  }
+`;
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  requestMatching: { graphql: true },
+});
+
+describe('GraphQL', () => {
+  pollyTest('matches by operation, not formatting', async ({ isRealMode }) => {
+    const body = isRealMode
+      ? { operationName: 'GetUser', query: GET_USER, variables: { id: '1', role: 'admin' } }
+      : {
+          // Same operation as recorded: reformatted, with a comment, reordered variables
+          // and an extension the recording doesn't have
+          query: '# fetch one user\nquery GetUser($id: ID!, $role: String) { user(id: $id, role: $role) { id, name, role } }',
+          variables: { role: 'admin', id: '1' },
+          extensions: { persistedQuery: { version: 1, sha256Hash: 'abc123' } },
+        };
+
+    const { data } = await graphql(body);
+    expect(data.user).toEqual({ id: '1', name: 'Ada', role: 'admin' });
+  });
+
+  pollyTest('names operations in unmatched request errors', async ({ isRealMode }) => {
+    const { data } = await graphql({ query: GET_USER, variables: { id: '1' } });
+    expect(data.user.name).toBe('Ada');
+
+    if (isRealMode) {
+      return;
+    }
+
+    // Different variables are a different request
+    await expect(graphql({ query: GET_USER, variables: { id: '2' } })).rejects.toThrow(
+      'No recording matches POST http://localhost:45734/graphql (query GetUser)'
+    );
+  });
+});
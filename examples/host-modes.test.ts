@@ -0,0 +1,90 @@
+/**
+ * Example test forcing modes per test and per host.
+ *
+ * The local server is reached through two hostnames, `localhost` and `127.0.0.1`,
+ * standing in for two different APIs.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/host-modes.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/host-modes.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import http from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPollyTest, setupNetworkRecorder } from '../src';
+
+const PORT = 45738;
+// Same server, two hosts
+const LOCAL_URL = `http://localhost:${PORT}/local`;
+const REMOTE_URL = `http://127.0.0.1:${PORT}/remote`;
+
+const hits: string[] = [];
+
+const server = http.createServer((req, res) => {
+  hits.push(req.url!);
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ path: req.url }));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  hosts: { localhost: 'passthrough' },
+});
+
+describe('Host and per-test modes', () => {
+  pollyTest('passes one host through and replays the other', async ({ isRealMode }) => {
+    hits.length = 0;
+
+    expect(await (await fetch(LOCAL_URL)).json()).toEqual({ path: '/local' });
+    expect(await (await fetch(REMOTE_URL)).json()).toEqual({ path: '/remote' });
+
+    // localhost always reaches the server; 127.0.0.1 only when recording
+    expect(hits).toEqual(isRealMode ? ['/local', '/remote'] : ['/local']);
+  });
+
+  pollyTest(
+    'forces a mode for one test',
+    async ({ isRealMode }) => {
+      hits.length = 0;
+      await fetch(REMOTE_URL);
+
+      expect(isRealMode).toBe(false);
+      expect(hits).toEqual(['/remote']);
+    },
+    { mode: 'passthrough' }
+  );
+
+  test('records only the hosts named in REAL_APIS', async () => {
+    const recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-hosts-'));
+    const realApis = process.env.REAL_APIS;
+    process.env.REAL_APIS = 'localhost';
+
+    try {
+      const recorder = setupNetworkRecorder({ recordingName: 'host-filter', recordingsDir });
+      await recorder.start();
+
+      // Recorded, since it's named in REAL_APIS
+      await fetch(LOCAL_URL);
+      // Replayed, and there is nothing to replay
+      await expect(fetch(REMOTE_URL)).rejects.toThrow('No recording matches GET http://127.0.0.1:45738/remote');
+
+      const recordingId = recorder.getRecordingId()!;
+      await recorder.stop();
+
+      const harPath = join(recordingsDir, recordingId, 'recording.har');
+      expect(existsSync(harPath)).toBe(true);
+      const har = JSON.parse(readFileSync(harPath, 'utf-8'));
+      expect(har.log.entries.map((entry: { request: { url: string } }) => entry.request.url)).toEqual([LOCAL_URL]);
+    } finally {
+      process.env.REAL_APIS = realApis;
+      rmSync(recordingsDir, { recursive: true, force: true });
+    }
+  });
+});
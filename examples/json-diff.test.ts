@@ -0,0 +1,99 @@
+/**
+ * Example tests for the structural JSON diff used in snapshot failures.
+ *
+ * Run:
+ *   bun test examples/json-diff.test.ts
+ */
+import { describe, expect, test } from 'bun:test';
+import {
+  diffJson,
+  formatCompareResult,
+  renderPlainDiff,
+  renderUnifiedDiff,
+  stableStringify,
+  type CompareResult,
+} from '../src';
+
+describe('JSON diff', () => {
+  test('reports changed, added and removed values by path', () => {
+    const expected = { user: { name: 'Leanne', addresses: [{ zip: '123' }, { zip: '456' }] }, 'first-name': 'L' };
+    const actual = { user: { name: 'Leanne', addresses: [{ zip: '124' }], email: 'leanne@april.biz' } };
+
+    expect(diffJson(expected, actual)).toEqual([
+      { kind: 'removed', path: '$["first-name"]', expected: 'L' },
+      { kind: 'changed', path: '$.user.addresses[0].zip', expected: '123', actual: '124' },
+      { kind: 'removed', path: '$.user.addresses[1]', expected: { zip: '456' } },
+      { kind: 'added', path: '$.user.email', actual: 'leanne@april.biz' },
+    ]);
+  });
+
+  test('ignores key order and undefined values, and compares Dates as ISO strings', () => {
+    const date = new Date('2024-01-15T10:30:00.000Z');
+
+    expect(diffJson({ a: 1, b: '2024-01-15T10:30:00.000Z' }, { b: date, a: 1, c: undefined })).toEqual([]);
+  });
+
+  test('rejects values JSON cannot represent', () => {
+    expect(() => diffJson({ id: 1 }, { id: 1n })).toThrow('Cannot convert the BigInt at $.id to JSON');
+    expect(() => diffJson({}, { tags: new Set(['a']) })).toThrow('Cannot convert the Set at $.tags to JSON');
+    expect(() => diffJson({}, { byId: new Map() })).toThrow('Cannot convert the Map at $.byId to JSON');
+
+    const node: Record<string, unknown> = {};
+    node.self = node;
+    expect(() => diffJson({}, node)).toThrow('Cannot convert the circular reference at $.self to JSON');
+  });
+
+  test('renders one plain line per change', () => {
+    const changes = diffJson({ id: 1, title: 'old', done: false }, { id: 2, title: 'old', tags: [] });
+
+    expect(renderPlainDiff(changes)).toBe(
+      ['$.done: missing, expected false', '$.id: expected 1 got 2', '$.tags: unexpected []'].join('\n')
+    );
+  });
+
+  test('renders a unified line diff of stringified values', () => {
+    const diff = renderUnifiedDiff(stableStringify({ id: 1, title: 'old' }), stableStringify({ title: 'new', id: 1 }));
+
+    expect(diff).toBe(
+      ['- Expected', '+ Received', '', '  {', '    "id": 1,', '-   "title": "old"', '+   "title": "new"', '  }'].join('\n')
+    );
+  });
+
+  test('colors the unified diff', () => {
+    const diff = renderUnifiedDiff('a\nb', 'a\nc', { color: true });
+
+    expect(diff.split('\n')).toEqual([
+      '\x1b[31m- Expected\x1b[0m',
+      '\x1b[32m+ Received\x1b[0m',
+      '',
+      '\x1b[2m  a\x1b[0m',
+      '\x1b[31m- b\x1b[0m',
+      '\x1b[32m+ c\x1b[0m',
+    ]);
+  });
+
+  test('lists changed lines in full when they are too many to align', () => {
+    const expected = Array.from({ length: 2000 }, (_, i) => `line ${i}`);
+    const actual = expected.map((line) => `${line}!`);
+
+    const lines = renderUnifiedDiff(['{', ...expected, '}'].join('\n'), ['{', ...actual, '}'].join('\n')).split('\n');
+
+    expect(lines.slice(3, 5)).toEqual(['  {', '- line 0']);
+    expect(lines[2004]).toBe('+ line 0!');
+    expect(lines.at(-1)).toBe('  }');
+    expect(lines).toHaveLength(3 + 4002);
+  });
+
+  test('formats compare results built without a list of changes', () => {
+    const result: CompareResult = {
+      match: false,
+      reason: 'Snapshot mismatch',
+      expected: '{\n  "id": 1\n}',
+      actual: '{\n  "id": 2\n}',
+    };
+
+    expect(formatCompareResult('todo', result)).toBe(
+      ['Snapshot mismatch: todo', '', renderUnifiedDiff(result.expected!, result.actual!, { color: false })].join('\n')
+    );
+  });
+});
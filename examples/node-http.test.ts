@@ -0,0 +1,116 @@
+/**
+ * Example test recording node:http clients (axios, got, AWS SDK, ...) against a local server.
+ *
+ * Run in recorded mode (uses saved recordings, the server is never hit):
+ *   bun test examples/node-http.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/node-http.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import http from 'node:http';
+import { createPollyTest, isoDate } from '../src';
+
+const PORT = 45731;
+const BASE_URL = `http://localhost:${PORT}`;
+
+let serverHits = 0;
+
+const server = http.createServer((req, res) => {
+  serverHits++;
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    res.setHeader('content-type', 'application/json');
+    if (req.method === 'POST' && req.url?.startsWith('/tokens')) {
+      const { client_id } = JSON.parse(body);
+      res.end(JSON.stringify({ client_id, access_token: `tok_${Date.now()}`, expires_in: 3600 }));
+      return;
+    }
+    res.end(JSON.stringify({ id: 1, name: 'Ada', createdAt: new Date().toISOString() }));
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+type User = { id: number; name: string; createdAt: string };
+type Token = { client_id: string; access_token: string; expires_in: number };
+
+/**
+ * Minimal node:http client, standing in for SDKs built on it.
+ */
+function request<T>(method: string, path: string, body?: unknown): Promise<{ status: number; data: T }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      `${BASE_URL}${path}`,
+      { method, headers: body ? { 'content-type': 'application/json' } : {} },
+      (res) => {
+        let text = '';
+        res.on('data', (chunk) => (text += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, data: JSON.parse(text) }));
+      }
+    );
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+}
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  adapters: ['fetch', 'node-http'],
+  // Cache buster added per request
+  ignoreQueryParams: ['_'],
+});
+
+const timedPollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  adapters: ['node-http'],
+  timeControl: true,
+});
+
+describe('node:http clients', () => {
+  pollyTest('records node:http requests alongside fetch', async ({ snapshot, isRealMode }) => {
+    const hitsBefore = serverHits;
+
+    const viaHttp = await request<User>('GET', '/users/1');
+    const viaFetch = await fetch(`${BASE_URL}/users/1?via=fetch`).then((r) => r.json() as Promise<User>);
+
+    expect(viaHttp.status).toBe(200);
+    expect(viaHttp.data.name).toBe('Ada');
+    expect(viaFetch.name).toBe('Ada');
+    expect(serverHits - hitsBefore).toBe(isRealMode ? 2 : 0);
+
+    await snapshot({ viaHttp: viaHttp.data, viaFetch }, {
+      viaHttp: { createdAt: isoDate() },
+      viaFetch: { createdAt: isoDate() },
+    });
+  });
+
+  pollyTest('applies redaction and URL normalization', async ({ isRealMode }) => {
+    const { status, data } = await request<Token>('POST', `/tokens?_=${Date.now()}`, {
+      client_id: 'pollytest',
+      client_secret: `secret-${Math.random()}`,
+    });
+
+    expect(status).toBe(200);
+    expect(data.client_id).toBe('pollytest');
+    expect(data.access_token).toEqual(isRealMode ? expect.stringMatching(/^tok_/) : '[REDACTED]');
+  });
+});
+
+describe('node:http clients with time control', () => {
+  timedPollyTest('freezes time to the recording time', async ({ time, isRealMode }) => {
+    const { data } = await request<User>('GET', '/users/1');
+
+    if (isRealMode) {
+      expect(time).toBeNull();
+      return;
+    }
+
+    expect(time).not.toBeNull();
+    expect(Date.now()).toBe(time!.now().getTime());
+    // The server created the user while the request was being recorded
+    expect(Math.abs(Date.parse(data.createdAt) - Date.now())).toBeLessThan(5000);
+  });
+});
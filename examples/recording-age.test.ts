@@ -0,0 +1,80 @@
+/**
+ * Example test for recording expiry with maxRecordingAge.
+ *
+ * Recordings older than maxRecordingAge are reported ('warn'), fail the test
+ * ('fail'), or are recorded again when API credentials are set ('rerecord').
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/recording-age.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/recording-age.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import http from 'node:http';
+import { resolve } from 'node:path';
+import { createPollyTest, setupNetworkRecorder } from '../src';
+
+const PORT = 45736;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+const server = http.createServer((_req, res) => {
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ status: 'ok' }));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+  maxRecordingAge: '10 years',
+});
+
+// Set by the first test, checked against other policies below
+let statusRecording = '';
+
+describe('Recording age', () => {
+  pollyTest('replays recordings younger than maxRecordingAge', 'status', async ({ recordingName }) => {
+    statusRecording = recordingName;
+    const response = await fetch(`http://localhost:${PORT}/status`);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  test.skipIf(process.env.REAL_APIS === 'true')('fails on stale recordings', async () => {
+    const recorder = setupNetworkRecorder({
+      recordingName: statusRecording,
+      recordingsDir: resolve(RECORDINGS_DIR),
+      mode: 'replay',
+      maxRecordingAge: 1,
+      staleRecordings: 'fail',
+    });
+
+    await expect(recorder.start()).rejects.toThrow('older than maxRecordingAge');
+    expect(recorder.getPolly()).toBeNull();
+  });
+
+  test.skipIf(process.env.REAL_APIS === 'true')('re-records only when credentials are set', async () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const recorder = setupNetworkRecorder({
+      recordingName: statusRecording,
+      recordingsDir: resolve(RECORDINGS_DIR),
+      mode: 'replay',
+      maxRecordingAge: 1,
+      staleRecordings: 'rerecord',
+      recordingCredentials: ['POLLYTEST_EXAMPLE_API_KEY'],
+    });
+
+    try {
+      await recorder.start();
+      expect(recorder.isRealMode()).toBe(false);
+      expect(warn.mock.calls[0][0]).toContain('Set POLLYTEST_EXAMPLE_API_KEY to re-record it.');
+
+      const response = await fetch(`http://localhost:${PORT}/status`);
+      expect(await response.json()).toEqual({ status: 'ok' });
+    } finally {
+      await recorder.stop();
+      warn.mockRestore();
+    }
+  });
+});
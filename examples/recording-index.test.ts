@@ -0,0 +1,279 @@
+/**
+ * Example test for recordings.json and the `pollytest mv` and `pollytest doctor` commands.
+ *
+ * Run:
+ *   bun test examples/recording-index.test.ts
+ */
+import { Polly } from '@pollyjs/core';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execSync, spawn, spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative, resolve } from 'node:path';
+import {
+  createPollyTest,
+  createPollyTestForRunner,
+  getRecordingDirectory,
+  loadRecordingIndex,
+  RECORDING_INDEX_FILE,
+  type PollyTestFn,
+  type PollyTestOptions,
+  type TestCaseOverrides,
+  type TestRunner,
+} from '../src';
+
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+const gitRoot = execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim();
+
+const pollyTest = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+});
+
+function pollytest(...args: string[]) {
+  const result = spawnSync(process.execPath, [resolve('src/cli.ts'), ...args], { encoding: 'utf-8' });
+  return { code: result.status, output: result.stdout + result.stderr };
+}
+
+describe('Recording index', () => {
+  pollyTest('adds every test to recordings.json', async ({ recordingName }) => {
+    expect(loadRecordingIndex(resolve(RECORDINGS_DIR)).tests[recordingName]).toEqual({
+      directory: 'recording-index-test_448599301/adds-every-test-to-recordings-json_205363352',
+      file: 'examples/recording-index.test.ts',
+      test: 'adds every test to recordings.json',
+    });
+  });
+
+  test('names recording directories the way Polly does', async () => {
+    const names = [
+      'basic.test/fetches-a-todo',
+      'users.spec/GET /users/:id returns 404 & an error',
+      'i18n.test/formats €12,50 for the café — not ¥',
+      'edge.test/--- leading and trailing punctuation!!!',
+      'edge.test/snake_case_name/Nested Block/suite-billing',
+      `long.test/${'a very long test name '.repeat(8)}`,
+      'edge.test//after an empty segment',
+    ];
+
+    for (const name of names) {
+      const polly = new Polly(name, { adapters: [], persister: null, logLevel: 'silent' });
+      try {
+        expect(getRecordingDirectory(name)).toBe(polly.recordingId);
+      } finally {
+        await polly.stop();
+      }
+    }
+  });
+
+  describe('updating recordings.json', () => {
+    let recordingsDir: string;
+
+    beforeEach(() => {
+      recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-index-'));
+    });
+
+    afterEach(() => rmSync(recordingsDir, { recursive: true, force: true }));
+
+    /**
+     * Register pollyTest tests, in replay mode unless options say otherwise, and run them in order.
+     */
+    async function runPollyTests(
+      options: Partial<PollyTestOptions>,
+      tests: Array<[name: string, fn: PollyTestFn, testOptions?: TestCaseOverrides]>
+    ): Promise<void> {
+      const registered: Array<() => Promise<void>> = [];
+      const register = (_name: string, testFn: () => Promise<void>) => {
+        registered.push(testFn);
+      };
+      const runner: TestRunner<object> = {
+        test: register,
+        only: register,
+        skip: register,
+        failing: register,
+        concurrent: register,
+        todo: () => {},
+        if: () => register,
+        skipIf: () => register,
+        describe: (_name, body) => body(),
+        beforeAll: () => {},
+        afterAll: () => {},
+      };
+
+      const pollyTest = createPollyTestForRunner(runner, {
+        recordingsDir: relative(gitRoot, recordingsDir),
+        mode: 'replay',
+        ...options,
+      });
+      for (const [name, fn, testOptions] of tests) {
+        pollyTest(name, fn, testOptions);
+      }
+      for (const testFn of registered) {
+        await testFn();
+      }
+    }
+
+    test('leaves it untouched in replay', async () => {
+      await runPollyTests({}, [['fetches a todo', async () => {}]]);
+      // Nor once the tests have been collected
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(existsSync(join(recordingsDir, RECORDING_INDEX_FILE))).toBe(false);
+    });
+
+    test('adds the tests of a file once one of them records', async () => {
+      await runPollyTests({ mode: 'record' }, [
+        ['fetches a todo', async () => {}],
+        ['fetches the todos', async () => {}],
+      ]);
+
+      expect(loadRecordingIndex(recordingsDir).tests).toEqual({
+        'recording-index.test/fetches-a-todo': {
+          directory: getRecordingDirectory('recording-index.test/fetches-a-todo'),
+          file: 'examples/recording-index.test.ts',
+          test: 'fetches a todo',
+        },
+        'recording-index.test/fetches-the-todos': {
+          directory: getRecordingDirectory('recording-index.test/fetches-the-todos'),
+          file: 'examples/recording-index.test.ts',
+          test: 'fetches the todos',
+        },
+      });
+    });
+
+    test('keeps the entries other processes write at the same time', async () => {
+      // Every process records the tests of its own test file, one at a time
+      const script = join(recordingsDir, 'record.ts');
+      writeFileSync(
+        script,
+        `import { indexTest, updateRecordingIndex } from ${JSON.stringify(resolve('src/recording-index.ts'))};\n` +
+          `const [recordingsDir, file] = process.argv.slice(2);\n` +
+          `for (let i = 0; i < 20; i++) {\n` +
+          `  indexTest(recordingsDir, \`\${file}/test-\${i}\`, { file, test: \`test \${i}\` });\n` +
+          `  updateRecordingIndex(recordingsDir, \`\${file}/test-\${i}\`);\n` +
+          `}\n`
+      );
+      const files = ['users.test', 'todos.test', 'posts.test', 'albums.test'];
+      const codes = await Promise.all(
+        files.map(
+          (file) =>
+            new Promise((resolve) =>
+              spawn(process.execPath, [script, recordingsDir, file], { stdio: 'inherit' }).on('exit', resolve)
+            )
+        )
+      );
+
+      expect(codes).toEqual([0, 0, 0, 0]);
+      expect(Object.keys(loadRecordingIndex(recordingsDir).tests)).toHaveLength(80);
+      expect(existsSync(join(recordingsDir, `${RECORDING_INDEX_FILE}.lock`))).toBe(false);
+    });
+
+    test('keeps the recording of a renamed test with an id', async () => {
+      // Recorded as 'fetches a todo' in another test file
+      const oldDirectory = getRecordingDirectory('todos.test/fetches-a-todo');
+      mkdirSync(join(recordingsDir, oldDirectory), { recursive: true });
+      writeFileSync(join(recordingsDir, oldDirectory, 'snapshot.json'), `${JSON.stringify({ id: 1 })}\n`);
+      writeFileSync(
+        join(recordingsDir, RECORDING_INDEX_FILE),
+        JSON.stringify({
+          tests: {
+            todo: {
+              directory: oldDirectory,
+              file: 'examples/todos.test.ts',
+              test: 'fetches a todo',
+              recordingName: 'todos.test/fetches-a-todo',
+            },
+          },
+        })
+      );
+
+      const fetchesOneTodo: PollyTestFn = async ({ recordingName, loadSnapshot }) => {
+        expect(recordingName).toBe('todos.test/fetches-a-todo');
+        expect(await loadSnapshot()).toEqual({ id: 1 });
+      };
+      await runPollyTests({}, [['fetches one todo', fetchesOneTodo, { id: 'todo' }]]);
+      await runPollyTests({ mode: 'record' }, [
+        ['fetches one todo', async ({ snapshot }) => snapshot({ id: 1 }), { id: 'todo' }],
+      ]);
+
+      expect(loadRecordingIndex(recordingsDir).tests).toEqual({
+        todo: {
+          directory: oldDirectory,
+          file: 'examples/recording-index.test.ts',
+          test: 'fetches one todo',
+          recordingName: 'todos.test/fetches-a-todo',
+        },
+      });
+    });
+
+    test('rejects an id used by two tests', async () => {
+      await expect(
+        runPollyTests({}, [
+          ['fetches a todo', async () => {}, { id: 'todo' }],
+          ['fetches the todos', async () => {}, { id: 'todo' }],
+        ])
+      ).rejects.toThrow(
+        `Test id 'todo' of "fetches the todos" is already used by "fetches a todo" in examples/recording-index.test.ts`
+      );
+    });
+  });
+
+  describe('pollytest mv and doctor', () => {
+    let recordingsDir: string;
+    const oldDirectory = getRecordingDirectory('todos.test/fetches-a-todo');
+
+    beforeEach(() => {
+      // A recording left behind by renaming 'fetches a todo' to 'fetches one todo'
+      recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-index-'));
+      mkdirSync(join(recordingsDir, oldDirectory), { recursive: true });
+      writeFileSync(
+        join(recordingsDir, oldDirectory, 'recording.har'),
+        `${JSON.stringify({ log: { _recordingName: 'todos.test/fetches-a-todo', entries: [] } }, null, 2)}\n`
+      );
+      writeFileSync(join(recordingsDir, oldDirectory, 'snapshot.json'), '{}\n');
+      writeFileSync(
+        join(recordingsDir, RECORDING_INDEX_FILE),
+        JSON.stringify({
+          tests: {
+            'todos.test/fetches-one-todo': {
+              directory: getRecordingDirectory('todos.test/fetches-one-todo'),
+              file: 'examples/recording-index.test.ts',
+              test: 'fetches one todo',
+            },
+          },
+        })
+      );
+    });
+
+    afterEach(() => rmSync(recordingsDir, { recursive: true, force: true }));
+
+    test('lists recordings no test uses', () => {
+      const { code, output } = pollytest('doctor', recordingsDir);
+
+      expect(code).toBe(1);
+      expect(output).toContain(`${oldDirectory}  (todos.test/fetches-a-todo)`);
+      expect(output).toContain('todos.test/fetches-one-todo  (examples/recording-index.test.ts)');
+    });
+
+    test('moves the recording of a renamed test', () => {
+      expect(pollytest('mv', 'todos.test/fetches-a-todo', 'todos.test/fetches-one-todo', recordingsDir).code).toBe(0);
+
+      const newDirectory = join(recordingsDir, getRecordingDirectory('todos.test/fetches-one-todo'));
+      expect(existsSync(join(recordingsDir, oldDirectory))).toBe(false);
+      expect(existsSync(join(newDirectory, 'snapshot.json'))).toBe(true);
+      const har = JSON.parse(readFileSync(join(newDirectory, 'recording.har'), 'utf-8'));
+      expect(har.log._recordingName).toBe('todos.test/fetches-one-todo');
+
+      expect(pollytest('doctor', recordingsDir)).toEqual({
+        code: 0,
+        output: expect.stringContaining('Every recording is used by a test.'),
+      });
+    });
+
+    test('moves every recording of a renamed test file', () => {
+      pollytest('rename', 'todos.test/fetches-a-todo', 'todos.test/fetches-one-todo', recordingsDir);
+      expect(pollytest('rename', 'todos.test', 'tasks.test', recordingsDir).code).toBe(0);
+
+      expect(existsSync(join(recordingsDir, getRecordingDirectory('tasks.test/fetches-one-todo'), 'recording.har'))).toBe(true);
+      expect(Object.keys(loadRecordingIndex(recordingsDir).tests)).toEqual(['tasks.test/fetches-one-todo']);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Example test for redacting secrets in query params, bodies and cookies.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/redaction.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/redaction.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import { join } from 'node:path';
+import { createPollyTest, createRedactor, getRecordingDirectory } from '../src';
+
+const PORT = 45743;
+const BASE_URL = `http://localhost:${PORT}`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+const server = http.createServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('set-cookie', `session=${crypto.randomUUID()}; Path=/; HttpOnly`);
+    res.end(JSON.stringify({ access_token: crypto.randomUUID(), token_type: 'bearer', expires_in: 3600 }));
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe('Redaction', () => {
+  const redactor = createRedactor({
+    queryParams: ['api_key', 'sig'],
+    requestBodyPaths: ['$.client_secret', '$..password', 'data.users[*].ssn'],
+    formFields: ['client_secret'],
+    cookies: ['session'],
+  });
+
+  test('redacts query params by name, case-insensitively', () => {
+    expect(redactor.redactUrl('https://api.example.com/v1?API_KEY=abc&page=2&sig=x%20y#top')).toBe(
+      'https://api.example.com/v1?API_KEY=%5BREDACTED%5D&page=2&sig=%5BREDACTED%5D#top'
+    );
+    expect(redactor.redactUrl('https://api.example.com/v1?page=2')).toBe('https://api.example.com/v1?page=2');
+  });
+
+  test('redacts form fields', () => {
+    expect(redactor.redactRequestBody('grant_type=client_credentials&client_secret=abc&scope=read+write')).toBe(
+      'grant_type=client_credentials&client_secret=%5BREDACTED%5D&scope=read+write'
+    );
+  });
+
+  test('redacts cookies by name', () => {
+    expect(redactor.redactCookieHeader('theme=dark; session=abc; lang=en')).toBe('theme=dark; session=[REDACTED]; lang=en');
+    expect(redactor.redactSetCookieHeader('session=abc; Path=/; HttpOnly')).toBe('session=[REDACTED]; Path=/; HttpOnly');
+    expect(redactor.redactSetCookieHeader('theme=dark; Path=/')).toBe('theme=dark; Path=/');
+    expect(createRedactor({ cookies: true }).redactCookieHeader('theme=dark')).toBe('theme=[REDACTED]');
+  });
+
+  test('redacts JSON body paths, with .. at any depth', () => {
+    const body = {
+      client_secret: 'abc',
+      password: 'top-level',
+      data: {
+        users: [
+          { name: 'Leanne', ssn: '123', credentials: { password: 'nested' } },
+          { name: 'Ervin', ssn: null },
+        ],
+        settings: [[{ password: 'in an array' }]],
+      },
+    };
+
+    expect(JSON.parse(redactor.redactRequestBody(JSON.stringify(body)))).toEqual({
+      client_secret: '[REDACTED]',
+      password: '[REDACTED]',
+      data: {
+        users: [
+          { name: 'Leanne', ssn: '[REDACTED]', credentials: { password: '[REDACTED]' } },
+          { name: 'Ervin', ssn: null },
+        ],
+        settings: [[{ password: '[REDACTED]' }]],
+      },
+    });
+  });
+
+  test('keeps the rest of a JSON body as it was', () => {
+    expect(redactor.redactRequestBody('{"z":1,"client_secret":"abc","a":"é"}')).toBe(
+      '{"z":1,"client_secret":"[REDACTED]","a":"é"}'
+    );
+    expect(redactor.redactRequestBody('{\n  "client_secret": "abc",\n  "scope": ["read"]\n}')).toBe(
+      '{\n  "client_secret": "[REDACTED]",\n  "scope": [\n    "read"\n  ]\n}'
+    );
+
+    // Bodies without secrets are never re-stringified
+    const untouched = '{ "scope" : "read" }';
+    expect(redactor.redactRequestBody(untouched)).toBe(untouched);
+  });
+
+  const pollyTest = createPollyTest({
+    recordingsDir: RECORDINGS_DIR,
+    redact: { queryParams: ['api_key'], cookies: ['session'] },
+  });
+
+  pollyTest('matches requests whatever secret they carry', async () => {
+    // A different secret on every run, as if read from the environment
+    const secret = crypto.randomUUID();
+    const response = await fetch(`${BASE_URL}/oauth/token?api_key=${secret}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', cookie: `session=${secret}` },
+      body: JSON.stringify({ grant_type: 'password', username: 'leanne', password: secret }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ token_type: 'bearer', expires_in: 3600 });
+  });
+
+  test('stores redacted values only', () => {
+    const directory = getRecordingDirectory('redaction.test/matches-requests-whatever-secret-they-carry');
+    const har = JSON.parse(readFileSync(join(RECORDINGS_DIR, directory, 'recording.har'), 'utf-8'));
+    const [{ request, response }] = har.log.entries;
+
+    expect(request.url).toBe(`${BASE_URL}/oauth/token?api_key=%5BREDACTED%5D`);
+    expect(JSON.parse(request.postData.text)).toEqual({ grant_type: 'password', username: 'leanne', password: '[REDACTED]' });
+    expect(request.headers).toContainEqual({ name: 'cookie', value: 'session=[REDACTED]' });
+    expect(JSON.parse(response.content.text).access_token).toBe('[REDACTED]');
+    expect(response.headers).toContainEqual({ name: 'set-cookie', value: 'session=[REDACTED]; Path=/; HttpOnly' });
+  });
+});
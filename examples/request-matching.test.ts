@@ -0,0 +1,122 @@
+/**
+ * Example test for request-matching rules.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/request-matching.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/request-matching.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import http from 'node:http';
+import { createPollyTest, getRecordingDirectory } from '../src';
+
+const PORT = 45741;
+const BASE_URL = `http://localhost:${PORT}`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+let count = 0;
+
+const server = http.createServer((req, res) => {
+  res.setHeader('content-type', 'application/json');
+  if (req.url === '/counter') {
+    res.end(JSON.stringify({ count: ++count }));
+    return;
+  }
+  res.end(JSON.stringify({ tenant: req.headers['x-tenant-id'], todos: [`${req.headers['x-tenant-id']} todo`] }));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+async function fetchTodos(tenant: string) {
+  const response = await fetch(`${BASE_URL}/todos`, {
+    // x-request-id differs on every run, but only x-tenant-id is compared
+    headers: { 'x-tenant-id': tenant, 'x-request-id': crypto.randomUUID() },
+  });
+  return response.json();
+}
+
+describe('Request matching', () => {
+  const pollyTestByTenant = createPollyTest({
+    recordingsDir: RECORDINGS_DIR,
+    requestMatching: { headers: ['X-Tenant-Id'] },
+  });
+
+  pollyTestByTenant('matches requests by the listed headers', async ({ isRealMode }) => {
+    expect(await fetchTodos('acme')).toEqual({ tenant: 'acme', todos: ['acme todo'] });
+    expect(await fetchTodos('globex')).toEqual({ tenant: 'globex', todos: ['globex todo'] });
+
+    if (!isRealMode) {
+      await expect(fetchTodos('initech')).rejects.toThrow(`No recording matches GET ${BASE_URL}/todos`);
+    }
+  });
+
+  const pollyTestInOrder = createPollyTest({
+    recordingsDir: RECORDINGS_DIR,
+    requestMatching: { order: true },
+  });
+
+  pollyTestInOrder('replays repeated requests in the order they were recorded', async ({ isRealMode }) => {
+    const first = await (await fetch(`${BASE_URL}/counter`)).json();
+    const second = await (await fetch(`${BASE_URL}/counter`)).json();
+
+    expect(second.count).toBe(first.count + 1);
+
+    if (!isRealMode) {
+      expect([first, second]).toEqual([{ count: 1 }, { count: 2 }]);
+      await expect(fetch(`${BASE_URL}/counter`)).rejects.toThrow(`No recording matches GET ${BASE_URL}/counter`);
+    }
+  });
+
+  const pollyTestWithAliases = createPollyTest({
+    recordingsDir: RECORDINGS_DIR,
+    hostAliases: { 'localhost:*': 'localhost' },
+    ignoreQueryParams: ['_'],
+  });
+
+  pollyTestWithAliases('matches hosts by wildcard alias and drops ignored query params', async ({ isRealMode }) => {
+    const response = await fetch(`${BASE_URL}/todos?_=${Date.now()}`, { headers: { 'x-tenant-id': 'acme' } });
+    expect(await response.json()).toEqual({ tenant: 'acme', todos: ['acme todo'] });
+
+    if (!isRealMode) {
+      // As if the server had been started on another random port
+      const moved = await fetch(`http://localhost:${PORT + 1000}/todos?_=1`);
+      expect(await moved.json()).toEqual({ tenant: 'acme', todos: ['acme todo'] });
+
+      await expect(fetch(`http://127.0.0.1:${PORT}/todos`)).rejects.toThrow(
+        `No recording matches GET http://127.0.0.1:${PORT}/todos`
+      );
+    }
+  });
+
+  const pollyTest = createPollyTest({ recordingsDir: RECORDINGS_DIR });
+
+  pollyTest('explains replay misses with the closest recorded requests', async ({ isRealMode }) => {
+    await fetch(`${BASE_URL}/todos?page=1`, { headers: { 'x-tenant-id': 'acme' } });
+    await fetch(`${BASE_URL}/todos`, { method: 'POST', body: JSON.stringify({ title: 'delectus', done: false }) });
+
+    if (isRealMode) {
+      return;
+    }
+
+    const miss = fetch(`${BASE_URL}/todos`, { method: 'POST', body: JSON.stringify({ title: 'delectus', done: true }) });
+    await expect(miss).rejects.toThrow(
+      [
+        `No recording matches POST ${BASE_URL}/todos`,
+        '',
+        `Closest recorded requests in ${getRecordingDirectory('request-matching.test/explains-replay-misses-with-the-closest-recorded-requests')}/recording.har:`,
+        '',
+        `1. POST ${BASE_URL}/todos`,
+        '   body   $.done: expected false got true',
+        '',
+        `2. GET ${BASE_URL}/todos?page=1`,
+        '   method recorded GET, got POST',
+        '   query  ?page: recorded "1", missing',
+        '   body   recorded "", got "{\\"title\\":\\"delectus\\",\\"done\\":true}"',
+        '',
+        'Re-record with REAL_APIS=true if the request changed intentionally.',
+      ].join('\n')
+    );
+  });
+});
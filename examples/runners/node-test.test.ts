@@ -0,0 +1,58 @@
+/**
+ * Example test for the node:test adapter.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   node --import tsx --test examples/runners/node-test.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true node --import tsx --test examples/runners/node-test.test.ts
+ */
+import http from 'node:http';
+import assert from 'node:assert/strict';
+import { after, before, describe } from 'node:test';
+import { any, createPollyTest } from '../../src/node-test';
+
+const PORT = 45743;
+const BASE_URL = `http://localhost:${PORT}`;
+
+// Requests that reached the server
+let hits = 0;
+
+const server = http.createServer((req, res) => {
+  hits++;
+  const id = Number(req.url!.split('/').pop());
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ id, title: `todo ${id}`, createdAt: Date.now() }));
+});
+
+before(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+});
+
+describe('node:test adapter', () => {
+  pollyTest('fetches a todo', async ({ isRealMode, snapshot }) => {
+    hits = 0;
+    const todo = await (await fetch(`${BASE_URL}/todos/1`)).json();
+
+    assert.equal(todo.title, 'todo 1');
+    assert.equal(hits, isRealMode ? 1 : 0);
+    await snapshot(todo, { createdAt: any(Number) });
+  });
+
+  pollyTest.each([2, 3])('fetches todo %d', async (_ctx, id) => {
+    const todo = await (await fetch(`${BASE_URL}/todos/${id}`)).json();
+    assert.equal(todo.id, id);
+  });
+
+  pollyTest.skipIf(true)('is skipped', async () => {
+    throw new Error('should not run');
+  });
+
+  pollyTest.failing('is expected to fail', async () => {
+    const todo = await (await fetch(`${BASE_URL}/todos/4`)).json();
+    assert.equal(todo.id, 5);
+  });
+});
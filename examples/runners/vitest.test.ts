@@ -0,0 +1,57 @@
+/**
+ * Example test for the Vitest adapter.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   npx vitest run examples/runners/vitest.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true npx vitest run examples/runners/vitest.test.ts
+ */
+import http from 'node:http';
+import { afterAll, beforeAll, describe, expect } from 'vitest';
+import { any, createPollyTest } from '../../src/vitest';
+
+const PORT = 45741;
+const BASE_URL = `http://localhost:${PORT}`;
+
+// Requests that reached the server
+let hits = 0;
+
+const server = http.createServer((req, res) => {
+  hits++;
+  const id = Number(req.url!.split('/').pop());
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ id, title: `todo ${id}`, createdAt: Date.now() }));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+});
+
+describe('Vitest adapter', () => {
+  pollyTest('fetches a todo', async ({ isRealMode, snapshot }) => {
+    hits = 0;
+    const todo = await (await fetch(`${BASE_URL}/todos/1`)).json();
+
+    expect(todo.title).toBe('todo 1');
+    expect(hits).toBe(isRealMode ? 1 : 0);
+    await snapshot(todo, { createdAt: any(Number) });
+  });
+
+  pollyTest.each([2, 3])('fetches todo %d', async (_ctx, id) => {
+    const todo = await (await fetch(`${BASE_URL}/todos/${id}`)).json();
+    expect(todo.id).toBe(id);
+  });
+
+  pollyTest.skipIf(true)('is skipped', async () => {
+    throw new Error('should not run');
+  });
+
+  pollyTest.failing('is expected to fail', async () => {
+    const todo = await (await fetch(`${BASE_URL}/todos/4`)).json();
+    expect(todo.id).toBe(5);
+  });
+});
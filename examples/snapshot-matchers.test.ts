@@ -0,0 +1,87 @@
+/**
+ * Example tests for snapshot property matchers.
+ *
+ * Matched values are stored as placeholders and only checked by type or shape
+ * in replay; values that fail their matcher show up in the snapshot diff.
+ *
+ * Run:
+ *   bun test examples/snapshot-matchers.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { any, anything, isoDate, renderPlainDiff, SnapshotManager, stringMatching } from '../src';
+
+let baseDir: string;
+let manager: SnapshotManager;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'pollytest-matchers-'));
+  manager = new SnapshotManager({ baseDir });
+});
+
+afterEach(() => rmSync(baseDir, { recursive: true, force: true }));
+
+/**
+ * Compare a value against the stored snapshot and render the differences.
+ */
+async function diffAgainstSnapshot(actual: unknown, matchers: Parameters<SnapshotManager['compare']>[2]): Promise<string> {
+  const result = manager.compare(actual, await manager.load('todo'), matchers);
+  return renderPlainDiff(result.changes ?? []);
+}
+
+describe('Property matchers', () => {
+  test('any() matches primitives by type and objects by constructor', async () => {
+    const matchers = { id: any(Number), title: any(String), createdAt: any(Date), tags: any(Array) };
+    await manager.save('todo', { id: 1, title: 'delectus', createdAt: new Date(), tags: [] }, { matchers });
+
+    expect(JSON.parse(readFileSync(join(baseDir, 'todo', 'snapshot.json'), 'utf-8'))).toEqual({
+      createdAt: '[any(Date)]',
+      id: '[any(Number)]',
+      tags: '[any(Array)]',
+      title: '[any(String)]',
+    });
+    expect(await diffAgainstSnapshot({ id: 2, title: 'quis', createdAt: new Date(0), tags: ['a'] }, matchers)).toBe('');
+    expect(await diffAgainstSnapshot({ id: '2', title: 'quis', createdAt: '1970-01-01', tags: [] }, matchers)).toBe(
+      ['$.createdAt: expected "[any(Date)]" got "1970-01-01"', '$.id: expected "[any(Number)]" got "2"'].join('\n')
+    );
+  });
+
+  test('anything() matches everything except null and undefined', async () => {
+    const matchers = { etag: anything() };
+    await manager.save('todo', { etag: 'W/"1"' }, { matchers });
+
+    expect(await diffAgainstSnapshot({ etag: 0 }, matchers)).toBe('');
+    expect(await diffAgainstSnapshot({ etag: null }, matchers)).toBe('$.etag: expected "[anything()]" got null');
+  });
+
+  test('isoDate() matches Dates and ISO 8601 strings', async () => {
+    const matchers = { updatedAt: isoDate() };
+    await manager.save('todo', { updatedAt: '2024-01-15T10:30:00Z' }, { matchers });
+
+    expect(await diffAgainstSnapshot({ updatedAt: new Date() }, matchers)).toBe('');
+    expect(await diffAgainstSnapshot({ updatedAt: '2024-01-15T10:30:00.123+02:00' }, matchers)).toBe('');
+    expect(await diffAgainstSnapshot({ updatedAt: 'yesterday' }, matchers)).toBe(
+      '$.updatedAt: expected "[isoDate()]" got "yesterday"'
+    );
+  });
+
+  test('stringMatching() matches strings against a regex', async () => {
+    const matchers = { items: [{ id: stringMatching(/^todo_\d+$/) }] };
+    await manager.save('todo', { items: [{ id: 'todo_1' }] }, { matchers });
+
+    expect(await diffAgainstSnapshot({ items: [{ id: 'todo_42' }] }, matchers)).toBe('');
+    expect(await diffAgainstSnapshot({ items: [{ id: 'note_42' }] }, matchers)).toBe(
+      '$.items[0].id: expected "[stringMatching(/^todo_\\\\d+$/)]" got "note_42"'
+    );
+  });
+
+  test('refuses to save values that fail their matcher', async () => {
+    const save = manager.save('todo', { id: 'abc', owner: null }, { matchers: { id: any(Number), owner: anything() } });
+
+    await expect(save).rejects.toThrow(
+      ['Snapshot property matchers failed: todo', '', '$.id: expected [any(Number)] got "abc"', '$.owner: expected [anything()] got null'].join('\n')
+    );
+  });
+});
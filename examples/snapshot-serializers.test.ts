@@ -0,0 +1,152 @@
+/**
+ * Example tests for snapshot serializers and file formats.
+ *
+ * Run:
+ *   bun test examples/snapshot-serializers.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  binarySerializer,
+  SnapshotManager,
+  textSerializer,
+  toSnapshotData,
+  yamlSerializer,
+  type SnapshotSerializer,
+} from '../src';
+
+let baseDir: string;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'pollytest-serializers-'));
+});
+
+afterEach(() => rmSync(baseDir, { recursive: true, force: true }));
+
+function roundTrip(serializer: SnapshotSerializer, value: unknown): unknown {
+  const content = serializer.serialize(serializer.normalize(value));
+  return serializer.deserialize(Buffer.from(content));
+}
+
+class Todo {
+  constructor(
+    public id: number,
+    public title: string,
+  ) {}
+}
+
+describe('toSnapshotData', () => {
+  test('keeps what JSON would lose', () => {
+    expect(
+      toSnapshotData({
+        byId: new Map([[1, { done: true }]]),
+        tags: new Set(['home', 'urgent']),
+        total: 9007199254740993n,
+        todo: new Todo(1, 'delectus'),
+        bytes: Buffer.from('hi'),
+        at: new Date('2024-01-15T10:30:00.000Z'),
+        skipped: undefined,
+      })
+    ).toEqual({
+      byId: { '[Map]': [[1, { done: true }]] },
+      tags: { '[Set]': ['home', 'urgent'] },
+      total: '9007199254740993n',
+      todo: { '[Todo]': { id: 1, title: 'delectus' } },
+      bytes: { '[Buffer]': 'aGk=' },
+      at: '2024-01-15T10:30:00.000Z',
+    });
+  });
+
+  test('marks circular references', () => {
+    const node: Record<string, unknown> = { id: 1 };
+    node.parent = node;
+
+    expect(toSnapshotData(node)).toEqual({ id: 1, parent: '[Circular]' });
+  });
+});
+
+describe('Serializers', () => {
+  test('yaml round-trips nested data', () => {
+    const value = {
+      title: 'delectus: aut autem',
+      count: 3,
+      ratio: -0.5,
+      done: false,
+      owner: null,
+      numeric: '42',
+      'x-request-id': 'abc',
+      'needs quotes': ' padded ',
+      empty: { list: [], map: {} },
+      items: [{ id: 1, tags: ['a', 'b'] }, [1, 2], 'plain'],
+      multiline: 'line 1\nline 2',
+    };
+
+    expect(roundTrip(yamlSerializer(), value)).toEqual(value);
+  });
+
+  test('yaml writes block style with sorted keys', () => {
+    const serializer = yamlSerializer();
+
+    expect(serializer.serialize(serializer.normalize({ b: [{ id: 1, name: 'x' }], a: 'true' }))).toBe(
+      ['a: "true"', 'b:', '  - id: 1', '    name: x'].join('\n')
+    );
+  });
+
+  test('text stores strings as they are', () => {
+    const html = '<ul>\n  <li>delectus aut autem</li>\n</ul>\n';
+
+    expect(roundTrip(textSerializer(), html)).toBe(html);
+    expect(roundTrip(textSerializer(), 42)).toBe('42');
+  });
+
+  test('binary stores bytes as they are and compares them by hash', () => {
+    const serializer = binarySerializer();
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+    expect(roundTrip(serializer, bytes)).toEqual(Buffer.from(bytes));
+    expect(serializer.toComparable!(serializer.normalize(bytes.buffer))).toBe(
+      'sha256:0f4636c78f65d3639ece5a064b5ae753e3408614a14fb18ab4d7540d2c248543 (4 bytes)'
+    );
+  });
+});
+
+describe('Serializer selection', () => {
+  const csvSerializer = textSerializer({
+    name: 'csv',
+    extension: 'csv',
+    test: (value) => typeof value === 'string' && value.includes(','),
+  });
+
+  test('picks serializers by value, custom ones first', async () => {
+    const manager = new SnapshotManager({ baseDir, serializers: [csvSerializer] });
+
+    await manager.save('todo', 'id,title\n1,delectus\n');
+    await manager.save('todo', new Uint8Array([1, 2]), { snapshotName: 'avatar' });
+    await manager.save('todo', { id: 1 }, { snapshotName: 'json' });
+
+    expect(readdirSync(join(baseDir, 'todo')).sort()).toEqual(['snapshot-avatar.bin', 'snapshot-json.json', 'snapshot.csv']);
+    expect(await manager.load('todo')).toBe('id,title\n1,delectus\n');
+    expect(manager.compare('id,title\n1,quis\n', await manager.load('todo')).match).toBe(false);
+    expect(manager.compare(new Uint8Array([1, 2]), await manager.load('todo', 'avatar')).match).toBe(true);
+  });
+
+  test('uses the default serializer or the one named when saving', async () => {
+    const manager = new SnapshotManager({ baseDir, defaultSerializer: 'yaml' });
+
+    await manager.save('todo', { id: 1, title: 'delectus' });
+    expect(readFileSync(join(baseDir, 'todo', 'snapshot.yaml'), 'utf-8')).toBe('id: 1\ntitle: delectus');
+
+    // Switching serializers replaces the file written by the previous one
+    await manager.save('todo', { id: 1, title: 'delectus' }, { serializer: 'json' });
+    expect(readdirSync(join(baseDir, 'todo'))).toEqual(['snapshot.json']);
+    expect(await manager.load('todo')).toEqual({ id: 1, title: 'delectus' });
+  });
+
+  test('rejects unknown serializer names', () => {
+    expect(() => new SnapshotManager({ baseDir, defaultSerializer: 'toml' })).toThrow(
+      'Unknown snapshot serializer: "toml". Registered: binary, json, yaml, text'
+    );
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Example tests for how snapshots are saved, compared and rewritten.
+ *
+ * Each test runs a pollyTest test of its own against a temporary recordings
+ * directory, so the snapshot files it leaves behind can be checked.
+ *
+ * Run:
+ *   bun test examples/snapshots.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execSync } from 'node:child_process';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import {
+  createPollyTestForRunner,
+  getRecordingDirectory,
+  type PollyTestContext,
+  type PollyTestFn,
+  type PollyTestOptions,
+  type TestRunner,
+} from '../src';
+
+const gitRoot = execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim();
+
+let recordingsDir: string;
+
+beforeEach(() => {
+  recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-snapshots-'));
+});
+
+afterEach(() => rmSync(recordingsDir, { recursive: true, force: true }));
+
+/**
+ * Run fn as the pollyTest test 'todo', in replay mode unless options say otherwise.
+ */
+async function runPollyTest(options: Partial<PollyTestOptions>, fn: PollyTestFn): Promise<void> {
+  const tests: Array<() => Promise<void>> = [];
+  const register = (_name: string, testFn: () => Promise<void>) => {
+    tests.push(testFn);
+  };
+  const runner: TestRunner<object> = {
+    test: register,
+    only: register,
+    skip: register,
+    failing: register,
+    concurrent: register,
+    todo: () => {},
+    if: () => register,
+    skipIf: () => register,
+    describe: (_name, body) => body(),
+    beforeAll: () => {},
+    afterAll: () => {},
+  };
+
+  const pollyTest = createPollyTestForRunner(runner, {
+    recordingsDir: relative(gitRoot, recordingsDir),
+    recordingIndex: false,
+    mode: 'replay',
+    ...options,
+  });
+  pollyTest('todo', fn);
+  await tests[0]();
+}
+
+/**
+ * The recording directory of the 'todo' test.
+ */
+function recordingDir(): string {
+  return join(recordingsDir, getRecordingDirectory('snapshots.test/todo'));
+}
+
+function readSnapshot(file = 'snapshot.json'): unknown {
+  return JSON.parse(readFileSync(join(recordingDir(), file), 'utf-8'));
+}
+
+/**
+ * Write a test module that snapshots a todo inline, as the test source that gets rewritten.
+ */
+async function writeInlineSnapshotModule(snapshotArgs: string) {
+  const file = join(recordingsDir, 'todo.test.ts');
+  writeFileSync(
+    file,
+    [
+      'export async function snapshotTodo(inlineSnapshot: (data: unknown, snapshot?: unknown) => Promise<void>) {',
+      `  await inlineSnapshot(${snapshotArgs});`,
+      '}',
+      '',
+    ].join('\n')
+  );
+  const { snapshotTodo } = await import(file);
+  return { file, snapshotTodo: snapshotTodo as (inlineSnapshot: PollyTestContext['inlineSnapshot']) => Promise<void> };
+}
+
+function listSnapshotFiles(): string[] {
+  return readdirSync(recordingDir()).filter((file) => file.startsWith('snapshot')).sort();
+}
+
+describe('Snapshots', () => {
+  describe('updateSnapshots', () => {
+    beforeEach(async () => {
+      await runPollyTest({ mode: 'record' }, async ({ snapshot }) => {
+        await snapshot({ id: 1, title: 'delectus aut autem' });
+      });
+    });
+
+    test('fails on a mismatching snapshot in replay', async () => {
+      const run = runPollyTest({}, async ({ snapshot }) => {
+        await snapshot({ id: 1, title: 'quis ut nam facilis' });
+      });
+
+      await expect(run).rejects.toThrow('Snapshot mismatch');
+      expect(readSnapshot()).toEqual({ id: 1, title: 'delectus aut autem' });
+    });
+
+    test('rewrites a mismatching snapshot in replay', async () => {
+      await runPollyTest({ updateSnapshots: true }, async ({ snapshot }) => {
+        await snapshot({ id: 1, title: 'quis ut nam facilis' });
+      });
+
+      expect(readSnapshot()).toEqual({ id: 1, title: 'quis ut nam facilis' });
+    });
+  });
+
+  test('stores values at snapshotIgnorePaths as placeholders and never compares them', async () => {
+    const options = { snapshotIgnorePaths: ['$.requestId', 'items[*].updatedAt', '$..etag'] };
+    const todos = (requestId: string, at: string) => ({
+      requestId,
+      items: [{ id: 1, updatedAt: at, meta: { etag: at } }],
+    });
+
+    await runPollyTest({ ...options, mode: 'record' }, async ({ snapshot }) => {
+      await snapshot(todos('req-1', '2024-01-15'));
+    });
+    await runPollyTest(options, async ({ snapshot }) => {
+      await snapshot(todos('req-2', '2024-02-20'));
+    });
+
+    expect(readSnapshot()).toEqual({
+      requestId: '[ignored]',
+      items: [{ id: 1, updatedAt: '[ignored]', meta: { etag: '[ignored]' } }],
+    });
+  });
+
+  describe('named snapshots', () => {
+    beforeEach(async () => {
+      await runPollyTest({ mode: 'record' }, async ({ snapshot }) => {
+        await snapshot({ step: 'list' });
+        await snapshot({ step: 'create' });
+        await snapshot({ user: 'leanne' }, 'after-login');
+      });
+    });
+
+    test('stores unnamed snapshots numbered and named ones by name', async () => {
+      expect(listSnapshotFiles()).toEqual(['snapshot-2.json', 'snapshot-after-login.json', 'snapshot.json']);
+      expect(readSnapshot('snapshot-2.json')).toEqual({ step: 'create' });
+
+      await runPollyTest({}, async ({ snapshot, loadSnapshot }) => {
+        expect(await loadSnapshot('after-login')).toEqual({ user: 'leanne' });
+        await snapshot({ step: 'list' });
+        await snapshot({ step: 'create' });
+      });
+    });
+
+    test('fails on snapshots the test no longer uses in replay', async () => {
+      const run = runPollyTest({}, async ({ snapshot }) => {
+        await snapshot({ step: 'list' });
+      });
+
+      await expect(run).rejects.toThrow(
+        `Unused snapshots in ${getRecordingDirectory('snapshots.test/todo')}: 2, after-login. ` +
+          'Remove them or run with UPDATE_SNAPSHOTS=true to delete them.'
+      );
+      expect(listSnapshotFiles()).toHaveLength(3);
+    });
+
+    test('deletes snapshots the test no longer uses in real mode and update mode', async () => {
+      await runPollyTest({ updateSnapshots: true }, async ({ snapshot }) => {
+        await snapshot({ step: 'list' });
+        await snapshot({ user: 'leanne' }, 'after-login');
+      });
+      expect(listSnapshotFiles()).toEqual(['snapshot-after-login.json', 'snapshot.json']);
+
+      await runPollyTest({ mode: 'record' }, async ({ snapshot }) => {
+        await snapshot({ step: 'list' });
+      });
+      expect(listSnapshotFiles()).toEqual(['snapshot.json']);
+    });
+
+    test('rejects two snapshots with the same name', async () => {
+      const run = runPollyTest({}, async ({ snapshot }) => {
+        await snapshot({ step: 'list' });
+        await snapshot({ user: 'leanne' }, 'default');
+      });
+
+      await expect(run).rejects.toThrow('Snapshot "default" was already used in this test. Give each snapshot a unique name.');
+    });
+  });
+
+  describe('inline snapshots', () => {
+    test('compares against the literal in replay, null included', async () => {
+      await runPollyTest({}, async ({ inlineSnapshot }) => {
+        await inlineSnapshot({ id: 1, tags: new Set(['home']) }, { id: 1, tags: { '[Set]': ['home'] } });
+        await inlineSnapshot(null, null);
+      });
+    });
+
+    test('fails on a mismatching or missing literal in replay', async () => {
+      const mismatch = runPollyTest({}, async ({ inlineSnapshot }) => {
+        await inlineSnapshot({ id: 2 }, { id: 1 });
+      });
+      await expect(mismatch).rejects.toThrow(/Snapshot mismatch: .* \(inline at .*snapshots\.test\.ts:\d+\)/);
+
+      const nullMismatch = runPollyTest({}, async ({ inlineSnapshot }) => {
+        await inlineSnapshot({ id: 1 }, null);
+      });
+      await expect(nullMismatch).rejects.toThrow('Snapshot mismatch');
+
+      const missing = runPollyTest({}, async ({ inlineSnapshot }) => {
+        await inlineSnapshot({ id: 1 });
+      });
+      await expect(missing).rejects.toThrow('No snapshot exists. Run in real mode to create one.');
+    });
+
+    test('writes the literal into the test source in real mode', async () => {
+      const { file, snapshotTodo } = await writeInlineSnapshotModule('{ id: 1, done: false }');
+
+      await runPollyTest({ mode: 'record' }, ({ inlineSnapshot }) => snapshotTodo(inlineSnapshot));
+
+      expect(readFileSync(file, 'utf-8')).toContain(
+        ['  await inlineSnapshot({ id: 1, done: false }, {', '    "id": 1,', '    "done": false', '  });'].join('\n')
+      );
+    });
+
+    test('rewrites a mismatching literal in update mode', async () => {
+      const { file, snapshotTodo } = await writeInlineSnapshotModule("{ id: 1, done: true }, { id: 1, done: false }");
+
+      await runPollyTest({ updateSnapshots: true }, ({ inlineSnapshot }) => snapshotTodo(inlineSnapshot));
+
+      expect(readFileSync(file, 'utf-8')).toContain(
+        ['  await inlineSnapshot({ id: 1, done: true }, {', '    "id": 1,', '    "done": true', '  });'].join('\n')
+      );
+    });
+  });
+});
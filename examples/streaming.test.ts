@@ -0,0 +1,94 @@
+/**
+ * Example test recording a Server-Sent Events stream, like the ones LLM APIs return.
+ *
+ * Recordings keep each chunk's boundaries and timing, and replay returns a real
+ * ReadableStream, so streaming parsers are exercised in recorded mode too.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/streaming.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/streaming.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import http from 'node:http';
+import { createPollyTest } from '../src';
+
+const PORT = 45732;
+const BASE_URL = `http://localhost:${PORT}`;
+
+const EVENTS = [
+  'data: {"delta":"Hello"}\n\n',
+  'data: {"delta":", world"}\n\n',
+  'data: [DONE]\n\n',
+];
+
+// Milliseconds between events
+const EVENT_INTERVAL = 50;
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+  EVENTS.forEach((event, i) => {
+    setTimeout(() => {
+      res.write(event);
+      if (i === EVENTS.length - 1) res.end();
+    }, i * EVENT_INTERVAL);
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+async function readChunks(response: Response, onChunk?: (text: string) => void): Promise<string[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const text = decoder.decode(value);
+    chunks.push(text);
+    onChunk?.(text);
+  }
+
+  return chunks;
+}
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+});
+
+const pacedPollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  timeControl: true,
+  streaming: { pace: true },
+});
+
+describe('Streaming responses', () => {
+  pollyTest('replays SSE responses chunk by chunk', async () => {
+    const response = await fetch(`${BASE_URL}/stream`);
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await readChunks(response)).toEqual(EVENTS);
+  });
+
+  pacedPollyTest('paces chunks with the time controller', async ({ time, isRealMode }) => {
+    const response = await fetch(`${BASE_URL}/stream`);
+
+    if (isRealMode) {
+      expect(await readChunks(response)).toEqual(EVENTS);
+      return;
+    }
+
+    // Chunks arrive only as the test advances time
+    const arrivals: number[] = [];
+    const reading = readChunks(response, () => arrivals.push(time!.elapsed()));
+
+    await time!.advance(EVENT_INTERVAL * EVENTS.length * 2);
+    expect(await reading).toEqual(EVENTS);
+
+    expect(arrivals[1] - arrivals[0]).toBeGreaterThanOrEqual(EVENT_INTERVAL - 10);
+    expect(arrivals[2] - arrivals[1]).toBeGreaterThanOrEqual(EVENT_INTERVAL - 10);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Example test for strict replay: recorded requests a test no longer makes,
+ * and requests replayed more than once.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/strict-replay.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/strict-replay.test.ts
+ */
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import http from 'node:http';
+import { resolve } from 'node:path';
+import { createPollyTest, getRecordingDirectory, setupNetworkRecorder, type NetworkRecorderOptions } from '../src';
+
+const PORT = 45742;
+const BASE_URL = `http://localhost:${PORT}`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+const RECORDING_NAME = 'strict-replay.test/fetches-a-todo-and-its-user';
+
+const server = http.createServer((req, res) => {
+  const [, resource, id] = req.url!.split('/');
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ id: Number(id), resource }));
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+  strict: true,
+});
+
+async function fetchJson(path: string) {
+  return (await fetch(`${BASE_URL}${path}`)).json();
+}
+
+/**
+ * Replay the recording of the pollyTest below while running fn, then check replay usage.
+ */
+async function replay(strict: NetworkRecorderOptions['strict'], fn: () => Promise<void>): Promise<void> {
+  const recorder = setupNetworkRecorder({
+    recordingName: RECORDING_NAME,
+    recordingsDir: resolve(RECORDINGS_DIR),
+    mode: 'replay',
+    strict,
+  });
+
+  await recorder.start();
+  try {
+    await recorder.run(fn);
+    // stop() doesn't check replay usage, so check it once fn has finished
+    recorder.verifyReplayUsage();
+  } finally {
+    await recorder.stop();
+  }
+}
+
+describe('Strict replay', () => {
+  const warn = spyOn(console, 'warn').mockImplementation(() => {});
+  const recordingPath = `${getRecordingDirectory(RECORDING_NAME)}/recording.har`;
+
+  afterEach(() => warn.mockClear());
+  afterAll(() => warn.mockRestore());
+
+  pollyTest('fetches a todo and its user', async () => {
+    expect(await fetchJson('/todos/1')).toEqual({ id: 1, resource: 'todos' });
+    expect(await fetchJson('/users/1')).toEqual({ id: 1, resource: 'users' });
+  });
+
+  test('fails on recorded requests the test no longer makes', async () => {
+    const run = replay(true, async () => {
+      await fetchJson('/todos/1');
+    });
+
+    await expect(run).rejects.toThrow(
+      `Recorded requests were never replayed in ${recordingPath}:\n` +
+        `  GET ${BASE_URL}/users/1\n` +
+        'The test no longer makes these requests. Re-record with REAL_APIS=true to drop them.'
+    );
+  });
+
+  test("only warns about them with strict: 'warn'", async () => {
+    await replay('warn', async () => {
+      await fetchJson('/users/1');
+    });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`never replayed in ${recordingPath}:\n  GET ${BASE_URL}/todos/1`));
+  });
+
+  test('warns about requests replayed more than once', async () => {
+    await replay(true, async () => {
+      await fetchJson('/todos/1');
+      await fetchJson('/todos/1');
+      await fetchJson('/users/1');
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      `[pollytest] Entries replayed more than once in ${recordingPath}:\n  GET ${BASE_URL}/todos/1 (2x)`
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Example test for suite-level recordings with pollyTest.describe.
+ *
+ * Requests made in beforeAll/beforeEach (logging in, seeding data) are recorded
+ * into a suite recording, and replayed from it, instead of hitting the network.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/suite-recordings.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/suite-recordings.test.ts
+ */
+import { afterAll, beforeAll, beforeEach, expect, test } from 'bun:test';
+import { execSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import http from 'node:http';
+import { tmpdir } from 'node:os';
+import { join, relative, resolve } from 'node:path';
+import {
+  createPollyTest,
+  createPollyTestForRunner,
+  getRecordingDirectory,
+  setupNetworkRecorder,
+  type TestRunner,
+} from '../src';
+
+const PORT = 45739;
+const BASE_URL = `http://localhost:${PORT}`;
+const RECORDINGS_DIR = 'examples/fixtures/recordings';
+
+// Requests that reached the server
+const hits: string[] = [];
+
+const server = http.createServer((req, res) => {
+  hits.push(`${req.method} ${req.url}`);
+  res.setHeader('content-type', 'application/json');
+
+  if (req.url === '/login') {
+    res.end(JSON.stringify({ session: 'session-1' }));
+  } else if (req.url === '/seed') {
+    res.end(JSON.stringify({ seeded: true }));
+  } else if (req.headers['x-session'] === 'session-1') {
+    res.end(JSON.stringify({ items: ['a', 'b'] }));
+  } else {
+    res.statusCode = 401;
+    res.end(JSON.stringify({ error: 'not logged in' }));
+  }
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: RECORDINGS_DIR,
+});
+
+pollyTest.describe('Setup traffic', () => {
+  let session = '';
+
+  beforeAll(async () => {
+    const response = await fetch(`${BASE_URL}/login`, { method: 'POST' });
+    session = (await response.json()).session;
+  });
+
+  beforeEach(async () => {
+    hits.length = 0;
+    await fetch(`${BASE_URL}/seed`, { method: 'POST' });
+  });
+
+  pollyTest('lists items with the suite session', async ({ isRealMode }) => {
+    const response = await fetch(`${BASE_URL}/items`, { headers: { 'x-session': session } });
+    expect(await response.json()).toEqual({ items: ['a', 'b'] });
+
+    // Setup and test requests only reach the server when recording
+    expect(hits).toEqual(isRealMode ? ['POST /seed', 'GET /items'] : []);
+  });
+
+  pollyTest('seeds before every test', async ({ isRealMode }) => {
+    expect(session).toBe('session-1');
+    expect(hits).toEqual(isRealMode ? ['POST /seed'] : []);
+  });
+});
+
+test.skipIf(process.env.REAL_APIS === 'true')('replays requests from fallback recordings', async () => {
+  const recorder = setupNetworkRecorder({
+    recordingName: 'suite-recordings.test/without-a-recording',
+    recordingsDir: resolve(RECORDINGS_DIR),
+    mode: 'replay',
+    // Recording ID of the 'Setup traffic' block above
+    fallbackRecordings: ['suite-recordings-test_1878678048/suite-setup-traffic_3576010231'],
+  });
+
+  await recorder.start();
+  try {
+    hits.length = 0;
+    const response = await fetch(`${BASE_URL}/login`, { method: 'POST' });
+    expect(await response.json()).toEqual({ session: 'session-1' });
+    expect(hits).toEqual([]);
+  } finally {
+    await recorder.stop();
+  }
+});
+
+test('resumes the enclosing suite recording when a nested one fails to start', async () => {
+  const gitRoot = execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim();
+  const recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-suites-'));
+
+  // Hooks in the order a runner calls them: outer beforeAll first, outer afterAll last
+  const beforeAllHooks: Array<() => Promise<void>> = [];
+  const afterAllHooks: Array<() => Promise<void>> = [];
+  const runner: TestRunner<object> = {
+    test: () => {},
+    only: () => {},
+    skip: () => {},
+    failing: () => {},
+    concurrent: () => {},
+    todo: () => {},
+    if: () => () => {},
+    skipIf: () => () => {},
+    describe: (_name, body) => body(),
+    beforeAll: (fn) => beforeAllHooks.push(fn),
+    afterAll: (fn) => afterAllHooks.push(fn),
+  };
+
+  const suitePollyTest = createPollyTestForRunner(runner, {
+    recordingsDir: relative(gitRoot, recordingsDir),
+    recordingIndex: false,
+    mode: 'replay',
+    maxRecordingAge: '30d',
+    staleRecordings: 'fail',
+  });
+  suitePollyTest.describe('billing', () => {
+    suitePollyTest.describe('invoices', () => {});
+  });
+
+  // Only the nested block has a recording, and it is too old to replay
+  const staleDir = join(recordingsDir, getRecordingDirectory('suite-recordings.test/suite-billing/suite-invoices'));
+  mkdirSync(staleDir, { recursive: true });
+  writeFileSync(
+    join(staleDir, 'recording.har'),
+    JSON.stringify({
+      log: {
+        version: '1.2',
+        creator: { name: 'Polly.JS', version: '6.0.6' },
+        entries: [
+          {
+            startedDateTime: '2020-01-15T10:30:00.000Z',
+            request: { method: 'GET', url: `${BASE_URL}/invoices`, headers: [] },
+            response: { status: 200, headers: [], content: { mimeType: 'application/json', text: '[]' } },
+          },
+        ],
+      },
+    })
+  );
+
+  try {
+    await beforeAllHooks[0]();
+    await expect(beforeAllHooks[1]()).rejects.toThrow('older than maxRecordingAge (30 days)');
+
+    // The billing recording intercepts requests again, so this one never reaches the server
+    hits.length = 0;
+    await expect(fetch(`${BASE_URL}/login`, { method: 'POST' })).rejects.toThrow(`No recording matches POST ${BASE_URL}/login`);
+    expect(hits).toEqual([]);
+  } finally {
+    for (const hook of afterAllHooks) {
+      await hook();
+    }
+    rmSync(recordingsDir, { recursive: true, force: true });
+  }
+});
+
+test('disconnects a recorder that fails to start', async () => {
+  const recordingsDir = mkdtempSync(join(tmpdir(), 'pollytest-start-'));
+  const recordingName = 'suite-recordings.test/with-a-broken-websocket-recording';
+  const recorder = setupNetworkRecorder({ recordingName, recordingsDir, mode: 'replay', websockets: true });
+
+  // Fails after Polly has connected to fetch
+  mkdirSync(join(recordingsDir, getRecordingDirectory(recordingName)), { recursive: true });
+  writeFileSync(join(recordingsDir, getRecordingDirectory(recordingName), 'websocket.json'), '{ "connections": [');
+
+  try {
+    await expect(recorder.start()).rejects.toThrow(SyntaxError);
+
+    // Later requests reach the server instead of the replay of the failed recorder
+    hits.length = 0;
+    const response = await fetch(`${BASE_URL}/login`, { method: 'POST' });
+    expect(await response.json()).toEqual({ session: 'session-1' });
+    expect(hits).toEqual(['POST /login']);
+  } finally {
+    rmSync(recordingsDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * Example test for pollyTest modifiers: each, if/skipIf, failing, concurrent, skip and todo.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/test-modifiers.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/test-modifiers.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import http from 'node:http';
+import { createPollyTest } from '../src';
+
+const PORT = 45740;
+const BASE_URL = `http://localhost:${PORT}`;
+
+const USERS: Record<string, { name: string }> = {
+  '1': { name: 'Ada' },
+  '2': { name: 'Grace' },
+};
+
+const server = http.createServer((req, res) => {
+  const id = req.url!.split('/').pop()!;
+  res.setHeader('content-type', 'application/json');
+  if (USERS[id]) {
+    res.end(JSON.stringify(USERS[id]));
+  } else {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: 'not found' }));
+  }
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+});
+
+describe('Test modifiers', () => {
+  pollyTest.each([
+    ['1', 200],
+    ['3', 404],
+  ])('fetches user %s', async ({ recordingName }, id, status) => {
+    const response = await fetch(`${BASE_URL}/users/${id}`);
+    expect(response.status).toBe(status);
+    expect(recordingName).toBe(`test-modifiers.test/fetches-user-${id}`);
+  });
+
+  pollyTest.each([
+    { id: '1', name: 'Ada' },
+    { id: '2', name: 'Grace' },
+  ])('names user $id', async (_ctx, { id, name }) => {
+    const user = await (await fetch(`${BASE_URL}/users/${id}`)).json();
+    expect(user.name).toBe(name);
+  });
+
+  // Rows with the same name still get their own recording
+  pollyTest.each(['1', '2'])('fetches a user', async ({ recordingName }, id) => {
+    await fetch(`${BASE_URL}/users/${id}`);
+    expect(recordingName).toBe(`test-modifiers.test/fetches-a-user-${Number(id) - 1}`);
+  });
+
+  pollyTest.if(true)('runs when the condition holds', async () => {
+    expect((await fetch(`${BASE_URL}/users/2`)).status).toBe(200);
+  });
+
+  pollyTest.skipIf(true)('is skipped when the condition holds', async () => {
+    throw new Error('should not run');
+  });
+
+  pollyTest.failing('is expected to fail', async () => {
+    const response = await fetch(`${BASE_URL}/users/3`);
+    expect(response.status).toBe(200);
+  });
+
+  pollyTest.concurrent('runs concurrently (1)', async () => {
+    expect((await (await fetch(`${BASE_URL}/users/1`)).json()).name).toBe('Ada');
+  });
+
+  pollyTest.concurrent('runs concurrently (2)', async () => {
+    expect((await (await fetch(`${BASE_URL}/users/2`)).json()).name).toBe('Grace');
+  });
+
+  pollyTest.skip('is skipped', 'skipped-recording', async () => {
+    throw new Error('should not run');
+  });
+
+  pollyTest.todo('lists users');
+});
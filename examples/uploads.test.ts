@@ -0,0 +1,90 @@
+/**
+ * Example test uploading a file and downloading a large binary body.
+ *
+ * With `requestMatching.multipart`, uploads match part by part, so the random
+ * boundary of each FormData body doesn't break replay. The large download is
+ * stored in bodies/ next to recording.har rather than as base64 inside it.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/uploads.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/uploads.test.ts
+ */
+import { afterAll, beforeAll, describe, expect } from 'bun:test';
+import { createHash } from 'node:crypto';
+import http from 'node:http';
+import { createPollyTest } from '../src';
+
+const PORT = 45735;
+const BASE_URL = `http://localhost:${PORT}`;
+
+// Larger than the default externalBodyThreshold of 100 KiB
+const ARCHIVE_SIZE = 150 * 1024;
+const ARCHIVE = Buffer.alloc(ARCHIVE_SIZE, 0).map((_, i) => (i * 31 + 7) % 256);
+
+let uploadsReceived = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/archive') {
+    res.setHeader('content-type', 'application/octet-stream');
+    res.end(ARCHIVE);
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    uploadsReceived++;
+    const body = Buffer.concat(chunks);
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ size: body.length, sha256: createHash('sha256').update(body).digest('hex') }));
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// A small binary file: not valid UTF-8, so it's matched by hash
+const AVATAR = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00, 0xfe]);
+
+function avatarForm(): FormData {
+  const form = new FormData();
+  form.append('username', 'ada');
+  form.append('avatar', new Blob([AVATAR], { type: 'image/png' }), 'avatar.png');
+  return form;
+}
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  requestMatching: { multipart: true },
+});
+
+describe('Uploads and binary bodies', () => {
+  pollyTest('matches multipart uploads regardless of boundary', async ({ isRealMode }) => {
+    const before = uploadsReceived;
+    const response = await fetch(`${BASE_URL}/upload`, { method: 'POST', body: avatarForm() });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).size).toBeGreaterThan(AVATAR.length);
+    expect(uploadsReceived - before).toBe(isRealMode ? 1 : 0);
+
+    if (isRealMode) {
+      return;
+    }
+
+    // A different file is a different request
+    const form = avatarForm();
+    form.set('avatar', new Blob([Buffer.from('not a png')], { type: 'image/png' }), 'avatar.png');
+    await expect(fetch(`${BASE_URL}/upload`, { method: 'POST', body: form })).rejects.toThrow(
+      'No recording matches POST http://localhost:45735/upload'
+    );
+  });
+
+  pollyTest('replays large binary responses from bodies/', async () => {
+    const response = await fetch(`${BASE_URL}/archive`);
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(body.equals(ARCHIVE)).toBe(true);
+  });
+});
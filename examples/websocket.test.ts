@@ -0,0 +1,123 @@
+/**
+ * Example test recording a WebSocket subscription against a local server.
+ *
+ * Messages in both directions are saved with their timing in websocket.json, next
+ * to recording.har. Replay checks the messages the client sends and plays back
+ * the server's, so the server is never hit.
+ *
+ * Run in recorded mode (uses saved recordings):
+ *   bun test examples/websocket.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/websocket.test.ts
+ */
+import { afterAll, describe, expect } from 'bun:test';
+import { createPollyTest } from '../src';
+
+const PORT = 45733;
+const WS_URL = `ws://localhost:${PORT}/live`;
+
+// Milliseconds between pushed updates
+const UPDATE_INTERVAL = 50;
+const UPDATES = 3;
+
+let connectionsOpened = 0;
+
+const server = Bun.serve({
+  port: PORT,
+  fetch(req, server) {
+    return server.upgrade(req) ? undefined : new Response('Expected a WebSocket', { status: 400 });
+  },
+  websocket: {
+    open() {
+      connectionsOpened++;
+    },
+    message(ws, message) {
+      const { type, channel } = JSON.parse(String(message));
+      if (type !== 'subscribe') return;
+
+      ws.send(JSON.stringify({ type: 'subscribed', channel }));
+      for (let seq = 1; seq <= UPDATES; seq++) {
+        setTimeout(() => {
+          ws.send(JSON.stringify({ type: 'update', channel, seq }));
+          if (seq === UPDATES) ws.close(1000, 'done');
+        }, seq * UPDATE_INTERVAL);
+      }
+    },
+  },
+});
+
+afterAll(() => server.stop(true));
+
+type ChannelMessage = { type: 'subscribed'; channel: string } | { type: 'update'; channel: string; seq: number };
+
+/**
+ * Subscribe to a channel and collect messages until the server closes the connection.
+ */
+function subscribe(channel: string) {
+  const ws = new WebSocket(WS_URL);
+  const messages: ChannelMessage[] = [];
+
+  ws.onopen = () => ws.send(JSON.stringify({ type: 'subscribe', channel }));
+  ws.onmessage = (event) => messages.push(JSON.parse(event.data));
+
+  const closed = new Promise<CloseEvent>((resolve) => ws.addEventListener('close', resolve));
+  return { messages, closed };
+}
+
+const EXPECTED_MESSAGES: ChannelMessage[] = [
+  { type: 'subscribed', channel: 'prices' },
+  { type: 'update', channel: 'prices', seq: 1 },
+  { type: 'update', channel: 'prices', seq: 2 },
+  { type: 'update', channel: 'prices', seq: 3 },
+];
+
+const pollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  websockets: true,
+});
+
+const pacedPollyTest = createPollyTest({
+  recordingsDir: 'examples/fixtures/recordings',
+  websockets: { pace: true },
+  timeControl: true,
+});
+
+describe('WebSockets', () => {
+  pollyTest('replays a subscription', async ({ isRealMode, websockets }) => {
+    const before = connectionsOpened;
+    const { messages, closed } = subscribe('prices');
+
+    const close = await closed;
+    expect(close.code).toBe(1000);
+    expect(messages).toEqual(EXPECTED_MESSAGES);
+    expect(connectionsOpened - before).toBe(isRealMode ? 1 : 0);
+
+    expect(websockets).toHaveLength(1);
+    expect(websockets![0].frames.map((frame) => frame.direction)).toEqual([
+      'send',
+      'receive',
+      'receive',
+      'receive',
+      'receive',
+    ]);
+  });
+
+  pacedPollyTest('pushes server messages as time advances', async ({ time, isRealMode }) => {
+    const { messages, closed } = subscribe('prices');
+
+    if (isRealMode) {
+      await closed;
+      expect(messages).toEqual(EXPECTED_MESSAGES);
+      return;
+    }
+
+    // Only the subscription reply is due before the first update
+    await time!.advance(UPDATE_INTERVAL / 2);
+    expect(messages).toEqual(EXPECTED_MESSAGES.slice(0, 1));
+
+    await time!.advance(UPDATE_INTERVAL * UPDATES + UPDATE_INTERVAL);
+    await closed;
+    expect(messages).toEqual(EXPECTED_MESSAGES);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Example test recording XMLHttpRequest clients against a local server.
+ *
+ * Polly's 'xhr' adapter needs a global XMLHttpRequest, which test files
+ * normally get from happy-dom or jsdom. This file installs a minimal one
+ * built on node:http instead, so it runs without a DOM environment.
+ *
+ * Run in recorded mode (uses saved recordings, the server is never hit):
+ *   bun test examples/xhr.test.ts
+ *
+ * Run in real mode (hits the local server and updates recordings):
+ *   REAL_APIS=true bun test examples/xhr.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import http from 'node:http';
+import { resolve } from 'node:path';
+import { createPollyTest, setupNetworkRecorder } from '../src';
+
+const PORT = 45746;
+const BASE_URL = `http://localhost:${PORT}`;
+
+type Todo = { id: number; title: string; completed: boolean };
+
+let serverHits = 0;
+
+const server = http.createServer((req, res) => {
+  serverHits++;
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    res.setHeader('content-type', 'application/json');
+    if (req.method === 'POST') {
+      res.statusCode = 201;
+      res.end(JSON.stringify({ id: 201, ...JSON.parse(body) }));
+      return;
+    }
+    res.end(JSON.stringify({ id: 1, title: 'delectus aut autem', completed: false }));
+  });
+});
+
+beforeAll(() => new Promise<void>((resolve) => server.listen(PORT, resolve)));
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+/**
+ * The parts of XMLHttpRequest Polly uses to pass requests through in real mode.
+ * Async requests with text or arraybuffer responses only.
+ */
+class NodeXMLHttpRequest {
+  static readonly DONE = 4;
+
+  readyState = 0;
+  status = 0;
+  responseType = '';
+  response: string | ArrayBuffer = '';
+  timeout = 0;
+  withCredentials = false;
+  onreadystatechange: (() => void) | null = null;
+
+  private method = 'GET';
+  private url = '';
+  private requestHeaders: Record<string, string> = {};
+  private responseHeaders = '';
+
+  open(method: string, url: string): void {
+    this.method = method;
+    this.url = url;
+    this.readyState = 1;
+  }
+
+  setRequestHeader(name: string, value: string): void {
+    this.requestHeaders[name] = value;
+  }
+
+  getAllResponseHeaders(): string {
+    return this.responseHeaders;
+  }
+
+  send(body?: string | null): void {
+    const req = http.request(this.url, { method: this.method, headers: this.requestHeaders }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const buffer = Buffer.concat(chunks);
+        this.status = res.statusCode ?? 0;
+        this.responseHeaders = Object.entries(res.headers)
+          .map(([name, value]) => `${name}: ${value}`)
+          .join('\r\n');
+        this.response =
+          this.responseType === 'arraybuffer'
+            ? buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+            : buffer.toString('utf-8');
+        this.readyState = NodeXMLHttpRequest.DONE;
+        this.onreadystatechange?.();
+      });
+    });
+    req.end(body ?? undefined);
+  }
+}
+
+type XhrGlobal = { XMLHttpRequest?: typeof NodeXMLHttpRequest };
+
+/**
+ * A client written against the browser XMLHttpRequest API.
+ */
+function xhrJson<T>(method: string, path: string, body?: unknown): Promise<{ status: number; data: T }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, `${BASE_URL}${path}`);
+    if (body) {
+      xhr.setRequestHeader('content-type', 'application/json');
+    }
+    xhr.onload = () => resolve({ status: xhr.status, data: JSON.parse(xhr.responseText) });
+    xhr.onerror = () => reject(new Error(`${method} ${path} failed`));
+    xhr.send(body ? JSON.stringify(body) : null);
+  });
+}
+
+describe('XMLHttpRequest clients', () => {
+  beforeAll(() => {
+    (globalThis as XhrGlobal).XMLHttpRequest = NodeXMLHttpRequest;
+  });
+  afterAll(() => {
+    delete (globalThis as XhrGlobal).XMLHttpRequest;
+  });
+
+  const pollyTest = createPollyTest({
+    recordingsDir: 'examples/fixtures/recordings',
+    adapters: ['xhr'],
+  });
+
+  pollyTest('records XMLHttpRequest requests', async ({ isRealMode }) => {
+    const hitsBefore = serverHits;
+
+    const todo = await xhrJson<Todo>('GET', '/todos/1');
+    const created = await xhrJson<Todo>('POST', '/todos', { title: 'quis ut nam', completed: false });
+
+    expect(todo).toEqual({ status: 200, data: { id: 1, title: 'delectus aut autem', completed: false } });
+    expect(created).toEqual({ status: 201, data: { id: 201, title: 'quis ut nam', completed: false } });
+    expect(serverHits - hitsBefore).toBe(isRealMode ? 2 : 0);
+  });
+});
+
+describe('XMLHttpRequest clients without a DOM environment', () => {
+  test('fail to start with a hint instead of a Polly assertion', async () => {
+    const recorder = setupNetworkRecorder({
+      recordingName: 'xhr.test/records-xmlhttprequest-requests',
+      recordingsDir: resolve('examples/fixtures/recordings'),
+      adapters: ['xhr'],
+    });
+
+    await expect(recorder.start()).rejects.toThrow(
+      "The 'xhr' adapter needs a global XMLHttpRequest. Register a DOM environment (e.g. happy-dom or jsdom) first."
+    );
+  });
+});
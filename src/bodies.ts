@@ -0,0 +1,284 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { HarEntry } from './har';
+
+/**
+ * Directory next to recording.har holding bodies stored outside of it.
+ */
+export const EXTERNAL_BODIES_DIR = 'bodies';
+
+/**
+ * Binary bodies larger than this (in bytes) are stored as files by default.
+ */
+export const DEFAULT_EXTERNAL_BODY_THRESHOLD = 100 * 1024;
+
+/**
+ * Turns a binary request body into text for matching, e.g. protobuf to JSON.
+ * The text then goes through the body normalizer like any other body.
+ */
+export type BodyDecoder = (body: Buffer) => string;
+
+/**
+ * One part of a multipart body, as compared when matching.
+ */
+export interface MultipartPart {
+  name?: string;
+  filename?: string;
+  contentType?: string;
+
+  /**
+   * Text content, or `sha256:<hex>` for binary content.
+   */
+  body: string;
+}
+
+/**
+ * Get the lowercased MIME type of a Content-Type header, without parameters.
+ */
+export function getMimeType(contentType: string | string[] | null | undefined): string {
+  const value = Array.isArray(contentType) ? contentType[0] : contentType;
+  return value?.split(';')[0].trim().toLowerCase() ?? '';
+}
+
+/**
+ * Convert a binary body (Buffer, ArrayBuffer or typed array) into a Buffer.
+ * Returns null for anything else, including strings.
+ */
+export function toBuffer(body: unknown): Buffer | null {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (body instanceof ArrayBuffer) {
+    return Buffer.from(body);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return null;
+}
+
+/**
+ * Check whether a buffer survives a round trip through UTF-8 (the check Polly uses for binary).
+ */
+export function isTextBuffer(buffer: Buffer): boolean {
+  return Buffer.from(buffer.toString('utf8'), 'utf8').equals(buffer);
+}
+
+/**
+ * Identify binary content by hash, e.g. `sha256:9f86d0...`.
+ */
+export function hashBody(buffer: Buffer): string {
+  return `sha256:${createHash('sha256').update(buffer).digest('hex')}`;
+}
+
+function headerParam(header: string, name: string): string | undefined {
+  const match = header.match(new RegExp(`;\\s*${name}\\*?=(?:"((?:\\\\.|[^"\\\\])*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]).replace(/\\(.)/g, '$1') : undefined;
+}
+
+/**
+ * Split a multipart body into its parts, leaving the boundary behind.
+ * The boundary comes from the Content-Type header, or from the first line of the body.
+ * Returns null if the body isn't multipart.
+ */
+export function parseMultipart(body: string | Buffer, contentType?: string): MultipartPart[] | null {
+  const buffer = typeof body === 'string' ? Buffer.from(body, 'utf8') : body;
+  const boundary =
+    (contentType && headerParam(contentType, 'boundary')) ??
+    buffer.subarray(0, 200).toString('latin1').match(/^--([^\r\n]+)\r?\n/)?.[1];
+
+  if (!boundary) {
+    return null;
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`, 'latin1');
+  const parts: MultipartPart[] = [];
+  let start = buffer.indexOf(delimiter);
+
+  if (start === -1) {
+    return null;
+  }
+
+  for (;;) {
+    const contentStart = start + delimiter.length;
+    // `--boundary--` closes the body
+    if (buffer.subarray(contentStart, contentStart + 2).toString('latin1') === '--') {
+      break;
+    }
+    const end = buffer.indexOf(delimiter, contentStart);
+    if (end === -1) {
+      break;
+    }
+
+    // Strip the line break after the delimiter and the one before the next
+    let raw = buffer.subarray(contentStart, end);
+    raw = raw.subarray(raw[0] === 0x0d && raw[1] === 0x0a ? 2 : raw[0] === 0x0a ? 1 : 0);
+    if (raw[raw.length - 2] === 0x0d && raw[raw.length - 1] === 0x0a) {
+      raw = raw.subarray(0, raw.length - 2);
+    } else if (raw[raw.length - 1] === 0x0a) {
+      raw = raw.subarray(0, raw.length - 1);
+    }
+
+    let headerEnd = raw.indexOf('\r\n\r\n');
+    let separator = 4;
+    if (headerEnd === -1) {
+      headerEnd = raw.indexOf('\n\n');
+      separator = 2;
+    }
+    const headerText = headerEnd === -1 ? '' : raw.subarray(0, headerEnd).toString('utf8');
+    const content = headerEnd === -1 ? raw : raw.subarray(headerEnd + separator);
+
+    const part: MultipartPart = { body: isTextBuffer(content) ? content.toString('utf8') : hashBody(content) };
+    for (const line of headerText.split(/\r?\n/)) {
+      const colon = line.indexOf(':');
+      const name = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+      if (name === 'content-disposition') {
+        const fieldName = headerParam(value, 'name');
+        const filename = headerParam(value, 'filename');
+        if (fieldName !== undefined) part.name = fieldName;
+        if (filename !== undefined) part.filename = filename;
+      } else if (name === 'content-type') {
+        part.contentType = value;
+      }
+    }
+    parts.push(part);
+    start = end;
+  }
+
+  return parts;
+}
+
+/**
+ * Serialize a fetch body that Polly can't read (FormData, Blob, URLSearchParams)
+ * into the bytes fetch would send, with the Content-Type fetch would set.
+ * Returns null for other bodies: strings, and buffers, which Polly reads itself.
+ */
+export async function serializeFetchBody(
+  body: unknown
+): Promise<{ body: string | Buffer; contentType: string | null } | null> {
+  if (!(body instanceof FormData) && !(body instanceof Blob) && !(body instanceof URLSearchParams)) {
+    return null;
+  }
+  const response = new Response(body as ConstructorParameters<typeof Response>[0]);
+  // Read before the body: Bun drops the header once it's consumed
+  const contentType = response.headers.get('content-type');
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return { body: isTextBuffer(buffer) ? buffer.toString('utf8') : buffer, contentType };
+}
+
+// Relative to recording.har, with forward slashes on every platform
+function externalFileName(buffer: Buffer): string {
+  return `${EXTERNAL_BODIES_DIR}/${hashBody(buffer).slice('sha256:'.length)}.bin`;
+}
+
+/**
+ * A body moved out of recording.har, to be written to `bodies/` when the recording is saved.
+ */
+export interface ExternalBody {
+  /**
+   * Path relative to recording.har, as referenced by `_file`.
+   */
+  file: string;
+  buffer: Buffer;
+}
+
+/**
+ * Move binary bodies out of a HAR entry before it is persisted.
+ * Binary request bodies are kept as base64 (Polly leaves them out of the HAR),
+ * and binary bodies over the threshold are referenced by `_file` relative to
+ * recording.har. Returns those bodies; nothing is written until writeExternalBodies.
+ */
+export function extractBinaryBodies(entry: HarEntry, requestBody: unknown, threshold: number): ExternalBody[] {
+  const bodies: ExternalBody[] = [];
+  const extract = (buffer: Buffer): string => {
+    const file = externalFileName(buffer);
+    bodies.push({ file, buffer });
+    return file;
+  };
+
+  const requestBuffer = toBuffer(requestBody);
+  if (requestBuffer && entry.request.postData) {
+    const { postData } = entry.request;
+    if (requestBuffer.length > threshold) {
+      postData._file = extract(requestBuffer);
+    } else {
+      postData.text = requestBuffer.toString('base64');
+      postData._encoding = 'base64';
+    }
+  }
+
+  const { content } = entry.response;
+  // node-http stores compressed bodies as a JSON list of base64 chunks, which stay inline
+  if (content.encoding === 'base64' && typeof content.text === 'string' && !content.text.startsWith('[')) {
+    const buffer = Buffer.from(content.text, 'base64');
+    if (buffer.length > threshold) {
+      content._file = extract(buffer);
+      delete content.text;
+    }
+  }
+
+  return bodies;
+}
+
+/**
+ * Write bodies returned by extractBinaryBodies to `bodies/` next to recording.har.
+ */
+export async function writeExternalBodies(recordingDir: string, bodies: ExternalBody[]): Promise<void> {
+  if (bodies.length === 0) {
+    return;
+  }
+  await mkdir(join(recordingDir, EXTERNAL_BODIES_DIR), { recursive: true });
+  for (const { file, buffer } of bodies) {
+    await writeFile(join(recordingDir, file), buffer);
+  }
+}
+
+/**
+ * Read a body stored in `bodies/` next to recording.har.
+ */
+export function readExternalBody(recordingDir: string, file: string): Buffer {
+  const path = join(recordingDir, file);
+  if (!existsSync(path)) {
+    throw new Error(`Body file ${path} referenced by recording.har is missing. Re-record with REAL_APIS=true.`);
+  }
+  return readFileSync(path);
+}
+
+/**
+ * Get a recorded request body as the adapter saw it: text, or a Buffer for binary bodies.
+ */
+export function readRecordedRequestBody(entry: HarEntry, recordingDir: string): string | Buffer | undefined {
+  const postData = entry.request.postData;
+  if (postData?._file) {
+    return readExternalBody(recordingDir, postData._file);
+  }
+  if (postData?._encoding === 'base64' && typeof postData.text === 'string') {
+    return Buffer.from(postData.text, 'base64');
+  }
+  return postData?.text;
+}
+
+/**
+ * Delete files in `bodies/` that no entry of the recording references anymore.
+ */
+export async function pruneExternalBodies(recordingDir: string, entries: HarEntry[]): Promise<void> {
+  const dir = join(recordingDir, EXTERNAL_BODIES_DIR);
+  if (!existsSync(dir)) {
+    return;
+  }
+  const referenced = new Set(
+    entries.flatMap((entry) => [entry.request.postData?._file, entry.response.content._file]).filter(Boolean)
+  );
+  const files = await readdir(dir);
+  const unreferenced = files.filter((name) => !referenced.has(`${EXTERNAL_BODIES_DIR}/${name}`));
+  if (unreferenced.length === files.length) {
+    await rm(dir, { recursive: true, force: true });
+    return;
+  }
+  for (const name of unreferenced) {
+    await rm(join(dir, name), { force: true });
+  }
+}
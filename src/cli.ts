@@ -4,12 +4,31 @@
  *
  * Usage:
  *   @zdavison/pollytest [options]
+ *   @zdavison/pollytest scan [dir]
+ *   @zdavison/pollytest stale [dir] [--max-age 90d]
+ *   @zdavison/pollytest mv <from> <to> [dir]
+ *   @zdavison/pollytest doctor [dir]
  *   bunx @zdavison/pollytest [options]
  */
 
 import { runTests } from './runner';
+import { runScanCommand } from './secret-scanner';
+import { runStaleCommand } from './recording-age';
+import { runDoctorCommand, runMoveCommand } from './recording-index';
 
-runTests().catch((error) => {
+const [command, ...args] = process.argv.slice(2);
+
+const run = command === 'scan'
+  ? runScanCommand(args).then((code) => process.exit(code))
+  : command === 'stale'
+    ? runStaleCommand(args).then((code) => process.exit(code))
+    : command === 'mv' || command === 'rename'
+      ? runMoveCommand(args).then((code) => process.exit(code))
+      : command === 'doctor'
+        ? runDoctorCommand(args).then((code) => process.exit(code))
+        : runTests();
+
+run.catch((error) => {
   console.error('\nError:', error.message);
   process.exit(1);
 });
@@ -0,0 +1,225 @@
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { getMimeType } from './bodies';
+import { describeHarEntry, type HarEntry } from './har';
+import { diffJson, renderPlainDiff, replaceAtPaths, type DiffChange } from './json-diff';
+import { REDACTED_PLACEHOLDER } from './redaction';
+import { IGNORED_PLACEHOLDER } from './snapshot-matchers';
+
+/**
+ * How verify mode compares live responses against recordings.
+ */
+export interface VerifyOptions {
+  /**
+   * Response headers to compare (case-insensitive). Content-Type is compared by MIME type.
+   * @default ['content-type']
+   */
+  headers?: string[];
+
+  /**
+   * Compare JSON body values as well as their shape.
+   * Off by default, since IDs and timestamps differ on every run.
+   * @default false
+   */
+  values?: boolean;
+
+  /**
+   * JSONPath-style paths left out of body comparison, e.g. '$.data[*].updatedAt'.
+   */
+  ignorePaths?: string[];
+
+  /**
+   * Fail the test on drift ('fail') or only log it ('warn').
+   * @default 'fail'
+   */
+  onDrift?: 'fail' | 'warn';
+}
+
+/**
+ * The parts of a live response compared against a recording.
+ */
+export interface LiveResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+
+  /**
+   * Body text, after redaction. Undefined for binary or streamed bodies.
+   */
+  body?: string;
+}
+
+/**
+ * A single part of a response that differs from the recorded entry.
+ */
+export interface ResponseDifference {
+  part: 'status' | 'header' | 'body' | 'request';
+  detail: string;
+}
+
+/**
+ * A request whose live response differs from its recording.
+ */
+export interface ContractDrift {
+  /**
+   * The request, e.g. `GET https://api.example.com/users/1`.
+   */
+  request: string;
+  differences: ResponseDifference[];
+}
+
+/**
+ * Reduce JSON data to its shape: the type of every value, keeping object keys.
+ * Arrays take the shape of their first item, so lists of any length compare equal.
+ *
+ * @example
+ * ```typescript
+ * jsonShape({ id: 1, tags: ['a', 'b'] });
+ * // { id: 'number', tags: ['string'] }
+ * ```
+ */
+export function jsonShape(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? [jsonShape(value[0])] : [];
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, jsonShape(child)]));
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+function parseJson(text: string | undefined): { value: unknown } | null {
+  if (text === undefined) {
+    return null;
+  }
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diff the shapes of two JSON values. Shapes of arrays hold at most one item, so an item
+ * added or removed at [0] means one side is empty, which says nothing about the shape.
+ */
+function diffShapes(expected: unknown, actual: unknown): DiffChange[] {
+  return diffJson(jsonShape(expected), jsonShape(actual)).filter(
+    (change) => change.kind === 'changed' || !change.path.endsWith('[0]')
+  );
+}
+
+function headerValue(headers: Record<string, string | string[]>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  const value = key === undefined ? undefined : headers[key];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Compare a live response with the response recorded for the same request.
+ */
+export function diffResponse(entry: HarEntry, live: LiveResponse, options: VerifyOptions = {}): ResponseDifference[] {
+  const differences: ResponseDifference[] = [];
+  const recorded = entry.response;
+
+  if (recorded.status !== undefined && recorded.status !== live.status) {
+    differences.push({ part: 'status', detail: `expected ${recorded.status} got ${live.status}` });
+  }
+
+  for (const name of (options.headers ?? ['content-type']).map((h) => h.toLowerCase())) {
+    const recordedHeader = recorded.headers?.find((h) => h.name.toLowerCase() === name)?.value;
+    const liveHeader = headerValue(live.headers, name);
+    if (recordedHeader === REDACTED_PLACEHOLDER) {
+      continue;
+    }
+    const [expected, actual] = name === 'content-type'
+      ? [recordedHeader && getMimeType(recordedHeader), liveHeader && getMimeType(liveHeader)]
+      : [recordedHeader, liveHeader];
+    if (expected !== actual) {
+      differences.push({
+        part: 'header',
+        detail: `${name}: expected ${JSON.stringify(expected ?? null)} got ${JSON.stringify(actual ?? null)}`,
+      });
+    }
+  }
+
+  // Binary and streamed bodies are only compared by status and headers
+  if (live.body === undefined || recorded.content.encoding === 'base64') {
+    return differences;
+  }
+
+  const recordedJson = parseJson(recorded.content.text);
+  const liveJson = parseJson(live.body);
+  const ignore = (value: unknown) => replaceAtPaths(value, options.ignorePaths ?? [], () => IGNORED_PLACEHOLDER);
+
+  if (recordedJson && liveJson) {
+    const expected = ignore(recordedJson.value);
+    const actual = ignore(liveJson.value);
+    const changes = options.values
+      ? diffJson(expected, actual).filter((change) => change.expected !== REDACTED_PLACEHOLDER)
+      : diffShapes(expected, actual);
+    if (changes.length > 0) {
+      differences.push(...renderPlainDiff(changes).split('\n').map((detail) => ({ part: 'body' as const, detail })));
+    }
+  } else if (recordedJson || liveJson) {
+    differences.push({ part: 'body', detail: recordedJson ? 'expected JSON, got another format' : 'got JSON, recorded another format' });
+  } else if (options.values && recorded.content.text !== live.body) {
+    differences.push({ part: 'body', detail: 'text differs from the recording' });
+  }
+
+  return differences;
+}
+
+/**
+ * Drift for a recorded entry whose live response differs, or null if it doesn't.
+ */
+export function checkEntryDrift(entry: HarEntry, live: LiveResponse, options: VerifyOptions = {}): ContractDrift | null {
+  const differences = diffResponse(entry, live, options);
+  return differences.length > 0 ? { request: describeHarEntry(entry), differences } : null;
+}
+
+/**
+ * Render drift for one recording, one line per difference.
+ */
+export function formatContractDrift(recordingPath: string, drift: ContractDrift[]): string {
+  const width = Math.max(...drift.flatMap((d) => d.differences.map((difference) => difference.part.length)));
+  const lines = [`Live responses drifted from ${recordingPath}:`];
+
+  for (const { request, differences } of drift) {
+    lines.push('', request);
+    for (const { part, detail } of differences) {
+      lines.push(`  ${part.padEnd(width)}  ${detail}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Environment variable naming a file that drift logged with onDrift: 'warn' is appended to.
+ * `pollytest --verify` sets it to tell passing runs apart from runs that only warned.
+ */
+export const DRIFT_REPORT_ENV = 'POLLYTEST_DRIFT_REPORT';
+
+/**
+ * Append warned drift for one recording to the drift report, if one was requested.
+ * One line per recording: its path and the number of drifted requests, tab-separated.
+ */
+export function appendDriftReport(recordingPath: string, drift: ContractDrift[]): void {
+  const file = process.env[DRIFT_REPORT_ENV];
+  if (file) {
+    appendFileSync(file, `${recordingPath}\t${drift.length}\n`);
+  }
+}
+
+/**
+ * Count the recordings and requests in a drift report. Zero if the file doesn't exist.
+ */
+export function readDriftReport(file: string): { recordings: number; requests: number } {
+  if (!existsSync(file)) {
+    return { recordings: 0, requests: 0 };
+  }
+  const lines = readFileSync(file, 'utf-8').split('\n').filter(Boolean);
+  return {
+    recordings: lines.length,
+    requests: lines.reduce((total, line) => total + Number(line.split('\t')[1] ?? 0), 0),
+  };
+}
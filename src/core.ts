@@ -0,0 +1,152 @@
+// Everything except createPollyTest, which each test runner entry point provides
+
+// Core exports
+export {
+  setupNetworkRecorder,
+  defaultBodyNormalizer,
+  createUrlNormalizer,
+  type NetworkRecorder,
+  type NetworkRecorderOptions,
+  type BodyNormalizer,
+  type UrlNormalizer,
+  type ReplayUsage,
+  type UrlNormalizationOptions,
+  type RequestMatchingOptions,
+  type NetworkAdapter,
+} from './network-recorder';
+
+export {
+  EXTERNAL_BODIES_DIR,
+  DEFAULT_EXTERNAL_BODY_THRESHOLD,
+  parseMultipart,
+  hashBody,
+  type BodyDecoder,
+  type MultipartPart,
+} from './bodies';
+
+export {
+  graphqlBodyNormalizer,
+  normalizeGraphQLQuery,
+  parseGraphQLRequest,
+  type GraphQLOperation,
+} from './graphql';
+
+export {
+  DEFAULT_STREAMING_CONTENT_TYPES,
+  type StreamingOptions,
+  type StreamChunk,
+} from './streaming';
+
+export {
+  WEBSOCKET_RECORDING_FILE,
+  type WebSocketOptions,
+  type WebSocketFrame,
+  type WebSocketConnectionRecording,
+  type WebSocketRecording,
+} from './websocket-recorder';
+
+export {
+  createRedactor,
+  REDACTED_PLACEHOLDER,
+  DEFAULT_REDACTION_RULES,
+  type RedactionRules,
+  type Redactor,
+} from './redaction';
+
+export {
+  parseRealApis,
+  type RecordingMode,
+  type HostModes,
+} from './host-modes';
+
+export {
+  jsonShape,
+  DRIFT_REPORT_ENV,
+  type VerifyOptions,
+  type ContractDrift,
+  type ResponseDifference,
+} from './contract-drift';
+
+export {
+  findRecordingAges,
+  type RecordingAge,
+  type StaleRecordingPolicy,
+} from './recording-age';
+
+export {
+  getRecordingDirectory,
+  loadRecordingIndex,
+  checkRecordingIndex,
+  findRecordingDirectories,
+  RECORDING_INDEX_FILE,
+  type RecordingIndex,
+  type RecordingIndexEntry,
+  type RecordingIndexReport,
+} from './recording-index';
+
+export {
+  createSecretScanner,
+  scanRecordings,
+  loadSecretAllowlist,
+  formatSecretFindings,
+  SECRET_ALLOWLIST_FILE,
+  type SecretScanner,
+  type SecretScannerOptions,
+  type SecretFinding,
+  type SecretKind,
+} from './secret-scanner';
+
+export {
+  SnapshotManager,
+  formatCompareResult,
+  DEFAULT_SNAPSHOT_NAME,
+  type SnapshotManagerOptions,
+  type SaveSnapshotOptions,
+  type CompareResult,
+} from './snapshot-manager';
+
+export {
+  diffJson,
+  renderPlainDiff,
+  renderUnifiedDiff,
+  stableStringify,
+  type DiffChange,
+  type RenderDiffOptions,
+} from './json-diff';
+
+export {
+  jsonSerializer,
+  yamlSerializer,
+  textSerializer,
+  binarySerializer,
+  toSnapshotData,
+  type SnapshotSerializer,
+  type TextSerializerOptions,
+} from './snapshot-serializers';
+
+export {
+  any,
+  anything,
+  isoDate,
+  stringMatching,
+  IGNORED_PLACEHOLDER,
+  type SnapshotMatcher,
+  type PropertyMatchers,
+} from './snapshot-matchers';
+
+export {
+  createPollyTestForRunner,
+  type PollyTestContext,
+  type PollyTestOptions,
+  type PollyTestFn,
+  type TestCaseOverrides,
+  type TestRunner,
+  type RunnerTestFunction,
+} from './polly-test-core';
+
+export {
+  TimeController,
+  parseDuration,
+  type TimeContext,
+  type TimeControlConfig,
+} from './time-controller';
@@ -0,0 +1,159 @@
+import { stableStringify } from './json-diff';
+
+/**
+ * A GraphQL operation parsed from a request body.
+ */
+export interface GraphQLOperation {
+  /**
+   * Operation name, from the body's operationName or the query itself. Null for anonymous operations.
+   */
+  operationName: string | null;
+
+  operationType: 'query' | 'mutation' | 'subscription';
+
+  /**
+   * The query with whitespace, commas and comments normalized away.
+   */
+  query: string;
+
+  variables: Record<string, unknown>;
+}
+
+// Lexical tokens of a GraphQL document. Whitespace, commas and comments are insignificant.
+const IGNORED_REGEX = /(?:[\s,\ufeff]+|#[^\n\r]*)+/y;
+const TOKEN_REGEX =
+  /"""(?:\\"""|[\s\S])*?"""|"(?:\\.|[^"\\\n\r])*"|\.\.\.|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[A-Za-z_]\w*|[!$&()[\]{}:=@|]/y;
+
+const OPERATION_TYPES = new Set(['query', 'mutation', 'subscription']);
+
+/**
+ * Split a GraphQL document into tokens. Returns null if it isn't a GraphQL document.
+ */
+function tokenize(document: string): string[] | null {
+  const tokens: string[] = [];
+  let offset = 0;
+
+  while (offset < document.length) {
+    IGNORED_REGEX.lastIndex = offset;
+    if (IGNORED_REGEX.test(document)) {
+      offset = IGNORED_REGEX.lastIndex;
+      continue;
+    }
+    TOKEN_REGEX.lastIndex = offset;
+    const match = TOKEN_REGEX.exec(document);
+    if (!match) {
+      return null;
+    }
+    tokens.push(match[0]);
+    offset = TOKEN_REGEX.lastIndex;
+  }
+
+  const first = tokens[0];
+  if (first !== '{' && first !== 'fragment' && !OPERATION_TYPES.has(first)) {
+    return null;
+  }
+  return tokens;
+}
+
+/**
+ * Find the operations defined at the top level of a document.
+ */
+function findOperations(tokens: string[]): { type: GraphQLOperation['operationType']; name: string | null }[] {
+  const operations: { type: GraphQLOperation['operationType']; name: string | null }[] = [];
+  let depth = 0;
+
+  tokens.forEach((token, i) => {
+    if (token === '{') {
+      // A selection set at the top level is an anonymous query
+      if (depth === 0 && (i === 0 || tokens[i - 1] === '}')) {
+        operations.push({ type: 'query', name: null });
+      }
+      depth++;
+    } else if (token === '}') {
+      depth--;
+    } else if (depth === 0 && OPERATION_TYPES.has(token) && (i === 0 || tokens[i - 1] === '}')) {
+      const next = tokens[i + 1];
+      operations.push({
+        type: token as GraphQLOperation['operationType'],
+        name: next && /^[A-Za-z_]/.test(next) ? next : null,
+      });
+    }
+  });
+
+  return operations;
+}
+
+/**
+ * Normalize a GraphQL document so formatting changes don't affect matching:
+ * tokens are joined by single spaces, dropping whitespace, commas and comments.
+ * Returns null if the text isn't a GraphQL document.
+ */
+export function normalizeGraphQLQuery(query: string): string | null {
+  return tokenize(query)?.join(' ') ?? null;
+}
+
+/**
+ * Parse a GraphQL request body (`{ query, operationName?, variables? }`).
+ * Returns null for anything else.
+ */
+export function parseGraphQLRequest(body: string): GraphQLOperation | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const { query, operationName, variables } = parsed as Record<string, unknown>;
+  if (typeof query !== 'string') {
+    return null;
+  }
+  const tokens = tokenize(query);
+  if (!tokens) {
+    return null;
+  }
+
+  const operations = findOperations(tokens);
+  const operation = typeof operationName === 'string'
+    ? operations.find((op) => op.name === operationName)
+    : operations.length === 1 ? operations[0] : undefined;
+
+  return {
+    operationName: typeof operationName === 'string' ? operationName : (operation?.name ?? null),
+    operationType: operation?.type ?? 'query',
+    query: tokens.join(' '),
+    variables: typeof variables === 'object' && variables !== null ? (variables as Record<string, unknown>) : {},
+  };
+}
+
+/**
+ * Label a request body by its GraphQL operation, e.g. 'query GetUser'.
+ * Returns null if the body isn't a GraphQL request.
+ */
+export function describeGraphQLOperation(body: string | undefined): string | null {
+  const operation = typeof body === 'string' ? parseGraphQLRequest(body) : null;
+  if (!operation) {
+    return null;
+  }
+  return operation.operationName ? `${operation.operationType} ${operation.operationName}` : operation.operationType;
+}
+
+/**
+ * Body normalizer for GraphQL requests. Reduces the body to the operation name,
+ * the normalized query and the variables in canonical key order, so changes in
+ * query formatting, variable order or extensions (e.g. persisted query hashes)
+ * don't break replay. Other bodies are returned unchanged.
+ */
+export function graphqlBodyNormalizer(body: string): string {
+  const operation = parseGraphQLRequest(body);
+  if (!operation) {
+    return body;
+  }
+  return stableStringify(
+    { operationName: operation.operationName, query: operation.query, variables: operation.variables },
+    0
+  );
+}
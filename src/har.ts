@@ -0,0 +1,118 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { describeGraphQLOperation } from './graphql';
+import type { StreamChunk } from './streaming';
+
+// HAR types for loading recordings (only the fields pollytest reads)
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarCookie {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  _id?: string;
+  _order?: number;
+  // Set on entries replayed from a fallback recording, e.g. the suite recording
+  _recordingId?: string;
+  startedDateTime: string;
+  request: {
+    method: string;
+    url: string;
+    headers?: HarHeader[];
+    queryString?: HarHeader[];
+    cookies?: HarCookie[];
+    postData?: {
+      mimeType?: string;
+      text?: string;
+      params?: HarHeader[];
+      /**
+       * 'base64' when text holds a binary body.
+       */
+      _encoding?: 'base64';
+      /**
+       * Body stored in a file, relative to recording.har.
+       */
+      _file?: string;
+    };
+  };
+  response: {
+    status?: number;
+    headers?: HarHeader[];
+    cookies?: HarCookie[];
+    content: {
+      mimeType?: string;
+      text?: string;
+      encoding?: string;
+      _chunks?: StreamChunk[];
+      /**
+       * Body stored in a file, relative to recording.har.
+       */
+      _file?: string;
+    };
+  };
+}
+
+export interface HarLog {
+  log: {
+    _recordingName?: string;
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Describe a request for reports, e.g. `POST https://api.example.com/graphql (query GetUser)`.
+ * GraphQL requests are labelled with their operation, since they all share one URL.
+ */
+export function describeRequest(method: string, url: string, body?: string): string {
+  const operation = describeGraphQLOperation(body);
+  return operation ? `${method} ${url} (${operation})` : `${method} ${url}`;
+}
+
+/**
+ * Describe a recorded entry for reports. See describeRequest.
+ */
+export function describeHarEntry(entry: HarEntry): string {
+  return describeRequest(entry.request.method, entry.request.url, entry.request.postData?.text);
+}
+
+/**
+ * Load a HAR file and return parsed content.
+ * Returns null if the file doesn't exist or isn't valid JSON.
+ */
+export async function loadHar(harPath: string): Promise<HarLog | null> {
+  if (!existsSync(harPath)) {
+    return null;
+  }
+
+  try {
+    const content = await readFile(harPath, 'utf-8');
+    return JSON.parse(content) as HarLog;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find every .har file under a directory, skipping node_modules and .git.
+ */
+export function findHarFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const item of readdirSync(dir, { withFileTypes: true })) {
+    if (item.name === 'node_modules' || item.name === '.git') {
+      continue;
+    }
+    const path = join(dir, item.name);
+    if (item.isDirectory()) {
+      files.push(...findHarFiles(path));
+    } else if (item.name.endsWith('.har')) {
+      files.push(path);
+    }
+  }
+  return files;
+}
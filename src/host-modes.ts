@@ -0,0 +1,95 @@
+import type { Polly, Request as PollyRequest } from '@pollyjs/core';
+
+/**
+ * How requests are handled: replayed from the recording, recorded against
+ * the real API, or sent to the real API without being recorded.
+ */
+export type RecordingMode = 'replay' | 'record' | 'passthrough';
+
+/**
+ * Modes for individual hosts, keyed by hostname ('api.stripe.com')
+ * or by wildcard for subdomains ('*.stripe.com').
+ */
+export type HostModes = Record<string, RecordingMode>;
+
+/**
+ * Parse the REAL_APIS env var. 'true' records everything; a comma-separated
+ * list (`stripe,github`) records only the hosts it names. Anything else records nothing.
+ */
+export function parseRealApis(value: string | undefined): boolean | string[] {
+  const trimmed = value?.trim() ?? '';
+  if (trimmed === 'true') {
+    return true;
+  }
+  if (trimmed === '' || trimmed === 'false' || trimmed === '0') {
+    return false;
+  }
+  return trimmed.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Check whether a REAL_APIS name refers to a host: the hostname itself,
+ * a parent domain ('stripe.com') or a single label ('stripe' for api.stripe.com).
+ */
+export function matchesHostFilter(host: string, filter: string): boolean {
+  return host === filter || host.endsWith(`.${filter}`) || host.split('.').includes(filter);
+}
+
+function matchesHostPattern(host: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  return normalized.startsWith('*.') ? host.endsWith(normalized.slice(1)) : host === normalized;
+}
+
+/**
+ * Build a lookup from request URL to the mode forced for its host, if any.
+ * Host rules win over REAL_APIS host filters, which record the hosts they name.
+ */
+export function createHostModeResolver(hosts: HostModes, realApiHosts: string[]) {
+  const rules = Object.entries(hosts);
+
+  return (url: string): RecordingMode | null => {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+
+    // Exact hostnames win over wildcards
+    const rule =
+      rules.find(([pattern]) => !pattern.startsWith('*.') && matchesHostPattern(host, pattern)) ??
+      rules.find(([pattern]) => matchesHostPattern(host, pattern));
+    if (rule) {
+      return rule[1];
+    }
+    return realApiHosts.some((filter) => matchesHostFilter(host, filter)) ? 'record' : null;
+  };
+}
+
+export type HostModeResolver = ReturnType<typeof createHostModeResolver>;
+
+// The adapter methods Polly picks from in record and replay mode
+interface ModeHandlers {
+  record(pollyRequest: PollyRequest): Promise<unknown>;
+  replay(pollyRequest: PollyRequest): Promise<unknown>;
+  passthrough(pollyRequest: PollyRequest): Promise<unknown>;
+}
+
+/**
+ * Route requests of hosts with a forced mode to that mode's handler.
+ * Polly has one mode per instance, so each connected adapter's record and replay
+ * handlers are wrapped. Passthrough and verify modes send every request to the real API.
+ */
+export function installHostModes(polly: Polly, resolveMode: HostModeResolver): void {
+  for (const adapter of polly.adapters.values()) {
+    const handlers = adapter as unknown as ModeHandlers;
+    const original: ModeHandlers = {
+      record: handlers.record.bind(adapter),
+      replay: handlers.replay.bind(adapter),
+      passthrough: handlers.passthrough.bind(adapter),
+    };
+
+    handlers.record = (pollyRequest) => original[resolveMode(pollyRequest.url) ?? 'record'](pollyRequest);
+    handlers.replay = (pollyRequest) => original[resolveMode(pollyRequest.url) ?? 'replay'](pollyRequest);
+  }
+}
@@ -1,27 +1,4 @@
-// Core exports
-export {
-  setupNetworkRecorder,
-  defaultBodyNormalizer,
-  type NetworkRecorder,
-  type NetworkRecorderOptions,
-  type BodyNormalizer,
-} from './network-recorder';
+// Bun entry point. Vitest, Jest and node:test have their own (pollytest/vitest, ...)
+export * from './core';
 
-export {
-  SnapshotManager,
-  type SnapshotManagerOptions,
-  type CompareResult,
-} from './snapshot-manager';
-
-export {
-  createPollyTest,
-  type PollyTestContext,
-  type PollyTestOptions,
-} from './polly-test';
-
-export {
-  TimeController,
-  parseDuration,
-  type TimeContext,
-  type TimeControlConfig,
-} from './time-controller';
+export { createPollyTest, type PollyTestCaseOptions } from './polly-test';
@@ -0,0 +1,161 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { toSnapshotData } from './snapshot-serializers';
+
+/**
+ * Location of an inlineSnapshot() call in a test file.
+ */
+export interface CallSite {
+  file: string;
+  line: number;
+  column: number;
+}
+
+interface PendingFile {
+  /**
+   * Source as it was when the test file was loaded.
+   * Stack trace positions always refer to this version.
+   */
+  original: string;
+  edits: Map<number, { start: number; end: number; text: string }>;
+}
+
+// Rewrites are applied to the original source, so earlier rewrites in the
+// same file don't shift the positions reported for later calls.
+const pendingFiles = new Map<string, PendingFile>();
+
+/**
+ * Find the test file call site of the function that called this one.
+ * Walks Error().stack the same way getTestSuiteName() does.
+ */
+export function getCallSite(): CallSite | null {
+  const stack = new Error().stack || '';
+
+  for (const line of stack.split('\n')) {
+    const match = line.match(/\(?((?:\/|[A-Za-z]:\\)[^()]*?\.(?:test|spec)\.(?:ts|tsx|js|jsx)):(\d+):(\d+)\)?\s*$/);
+    if (match) {
+      return { file: match[1], line: parseInt(match[2], 10), column: parseInt(match[3], 10) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Serialize a value as a source literal, indented to match the call site.
+ * Uses the same conversion as JSON snapshot files, so Maps, Sets and BigInts
+ * are written in the form they are compared in.
+ */
+export function serializeInlineSnapshot(value: unknown, indent: string): string {
+  const json = JSON.stringify(toSnapshotData(value), null, 2) ?? 'undefined';
+  return json.split('\n').join(`\n${indent}`);
+}
+
+/**
+ * Rewrite the inlineSnapshot() call at the given call site so its second
+ * argument is the serialized value. Any existing second argument is replaced.
+ */
+export function writeInlineSnapshot(callSite: CallSite, value: unknown): void {
+  let pending = pendingFiles.get(callSite.file);
+  if (!pending) {
+    pending = { original: readFileSync(callSite.file, 'utf-8'), edits: new Map() };
+    pendingFiles.set(callSite.file, pending);
+  }
+
+  const source = pending.original;
+  const lineStart = offsetOfLine(source, callSite.line);
+  const callOffset = source.indexOf('inlineSnapshot', lineStart + callSite.column - 1);
+  const openParen = callOffset === -1 ? -1 : source.indexOf('(', callOffset);
+
+  if (openParen === -1 || source.slice(callOffset + 'inlineSnapshot'.length, openParen).trim() !== '') {
+    throw new Error(
+      `Could not find inlineSnapshot() call at ${callSite.file}:${callSite.line}:${callSite.column}`
+    );
+  }
+
+  const { firstArgEnd, closeParen } = scanArguments(source, openParen);
+  const indent = source.slice(lineStart).match(/^\s*/)?.[0] ?? '';
+
+  pending.edits.set(openParen, {
+    start: firstArgEnd,
+    end: closeParen,
+    text: `, ${serializeInlineSnapshot(value, indent)}`,
+  });
+
+  let updated = source;
+  const edits = [...pending.edits.values()].sort((a, b) => b.start - a.start);
+  for (const edit of edits) {
+    updated = updated.slice(0, edit.start) + edit.text + updated.slice(edit.end);
+  }
+
+  writeFileSync(callSite.file, updated, 'utf-8');
+}
+
+function offsetOfLine(source: string, line: number): number {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = source.indexOf('\n', offset);
+    if (next === -1) break;
+    offset = next + 1;
+  }
+  return offset;
+}
+
+/**
+ * Scan a call's argument list starting at its opening parenthesis.
+ * Returns the end of the first argument (trailing whitespace excluded)
+ * and the position of the closing parenthesis.
+ */
+function scanArguments(source: string, openParen: number): { firstArgEnd: number; closeParen: number } {
+  let depth = 0;
+  let firstArgEnd = -1;
+
+  for (let i = openParen + 1; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipString(source, i, char);
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) break;
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i + 2) + 1;
+      if (i === 0) break;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (depth === 0) {
+        return { firstArgEnd: trimEnd(source, firstArgEnd === -1 ? i : firstArgEnd), closeParen: i };
+      }
+      depth--;
+    } else if (char === ',' && depth === 0 && firstArgEnd === -1) {
+      firstArgEnd = i;
+    }
+  }
+
+  throw new Error('Could not parse inlineSnapshot() arguments: unbalanced parentheses');
+}
+
+function skipString(source: string, start: number, quote: string): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+function trimEnd(source: string, end: number): number {
+  while (end > 0 && /\s/.test(source[end - 1])) {
+    end--;
+  }
+  return end;
+}
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, test } from '@jest/globals';
+import { createPollyTestForRunner, type PollyTestOptions, type TestCaseOverrides, type TestRunner } from './polly-test-core';
+
+export * from './core';
+
+/**
+ * Jest takes a timeout per test and no other options.
+ */
+export interface JestTestOptions {
+  timeout?: number;
+}
+
+/**
+ * Options for a single pollyTest: the Jest timeout plus overrides for this test.
+ */
+export interface PollyTestCaseOptions extends JestTestOptions, TestCaseOverrides {}
+
+const jestRunner: TestRunner<JestTestOptions> = {
+  test: (name, fn, options) => test(name, fn, options?.timeout),
+  only: (name, fn, options) => test.only(name, fn, options?.timeout),
+  skip: (name, fn, options) => test.skip(name, fn, options?.timeout),
+  failing: (name, fn, options) => test.failing(name, fn, options?.timeout),
+  concurrent: (name, fn, options) => test.concurrent(name, fn, options?.timeout),
+  // Jest never runs todo tests
+  todo: (name) => test.todo(name),
+  if: (condition) => (name, fn, options) => (condition ? test : test.skip)(name, fn, options?.timeout),
+  skipIf: (condition) => (name, fn, options) => (condition ? test.skip : test)(name, fn, options?.timeout),
+  describe: (name, fn) => describe(name, fn),
+  beforeAll: (fn) => beforeAll(fn),
+  afterAll: (fn) => afterAll(fn),
+};
+
+/**
+ * Creates a pollyTest function that registers Jest tests.
+ * Same API as the Bun version, with a timeout as the only test option.
+ *
+ * @example
+ * ```typescript
+ * import { createPollyTest } from '@zdavison/pollytest/jest';
+ *
+ * const pollyTest = createPollyTest({
+ *   recordingsDir: 'tests/fixtures/recordings',
+ * });
+ * ```
+ */
+export function createPollyTest(globalOptions: PollyTestOptions) {
+  return createPollyTestForRunner(jestRunner, globalOptions);
+}
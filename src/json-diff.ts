@@ -0,0 +1,344 @@
+/**
+ * A single difference between an expected and an actual JSON value.
+ */
+export interface DiffChange {
+  /**
+   * - 'added': present in actual but not in expected
+   * - 'removed': present in expected but not in actual
+   * - 'changed': present in both with different values
+   */
+  kind: 'added' | 'removed' | 'changed';
+
+  /**
+   * JSONPath-style location of the change, e.g. `$.user.addresses[2].zip`.
+   */
+  path: string;
+
+  /**
+   * Expected value (absent for 'added').
+   */
+  expected?: unknown;
+
+  /**
+   * Actual value (absent for 'removed').
+   */
+  actual?: unknown;
+}
+
+export interface RenderDiffOptions {
+  /**
+   * Wrap added/removed lines in ANSI colors.
+   * @default false
+   */
+  color?: boolean;
+}
+
+const ANSI_RED = '\x1b[31m';
+const ANSI_GREEN = '\x1b[32m';
+const ANSI_DIM = '\x1b[2m';
+const ANSI_RESET = '\x1b[0m';
+
+// Above this many LCS table cells, changed lines are listed as removed, then added
+const MAX_LINE_DIFF_CELLS = 1_000_000;
+
+/**
+ * Normalize a value into plain JSON data, the same way JSON.stringify would.
+ * Dates become ISO strings, toJSON() is honored and undefined object values are dropped,
+ * so values compare equal to what a snapshot file would load back as.
+ * Throws on BigInt, Map, Set and circular references, which JSON can't represent;
+ * convert them first (e.g. with toSnapshotData).
+ */
+export function toJsonValue(value: unknown): unknown {
+  return toJson(value, '$', []);
+}
+
+function toJson(value: unknown, path: string, ancestors: object[]): unknown {
+  if (typeof value === 'object' && value !== null && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  if (typeof value === 'bigint') {
+    throw new Error(`Cannot convert the BigInt at ${path} to JSON. Convert it to a string or number first.`);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'object' || value === null) {
+    // Functions and symbols are dropped, like undefined
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+  if (value instanceof Map || value instanceof Set) {
+    throw new Error(
+      `Cannot convert the ${value.constructor.name} at ${path} to JSON. Convert it to an object or array first.`
+    );
+  }
+  if (ancestors.includes(value)) {
+    throw new Error(`Cannot convert the circular reference at ${path} to JSON.`);
+  }
+
+  const nested = [...ancestors, value];
+  if (Array.isArray(value)) {
+    return value.map((item, i) => toJson(item, joinPath(path, i), nested) ?? null);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const converted = toJson(child, joinPath(path, key), nested);
+    if (converted !== undefined) {
+      result[key] = converted;
+    }
+  }
+  return result;
+}
+
+/**
+ * Stringify JSON data with object keys sorted, so key order never shows up as a difference.
+ */
+export function stableStringify(value: unknown, indent = 2): string {
+  return JSON.stringify(sortKeys(toJsonValue(value)), null, indent) ?? 'undefined';
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (isPlainObject(value)) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys(value[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append a key or index to a JSONPath-style path.
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Compile a path pattern into a regex over JSONPath-style paths.
+ * Supports `*` for any object key, `[*]` for any array index and `..` for any depth
+ * (e.g. `$..access_token`). A leading `$.` is optional: 'user.id' and '$.user.id' are equivalent.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const normalized = pattern.startsWith('$') ? pattern : pattern.startsWith('..') ? `$${pattern}` : `$.${pattern}`;
+  const source = normalized
+    .split(/(\.\.|\[\*\]|\.\*)/)
+    .map((part) => {
+      if (part === '..') return '(?:\\.[^.[]+|\\[[^\\]]*\\])*\\.';
+      if (part === '[*]') return '\\[\\d+\\]';
+      if (part === '.*') return '(?:\\.[^.[]+|\\["[^"]*"\\])';
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Replace the values at paths matching any of the patterns (see compilePathPattern).
+ * Only arrays and plain objects are descended into. Returns the input unchanged
+ * (same reference) when no path matched.
+ */
+export function replaceAtPaths(
+  value: unknown,
+  patterns: string[],
+  replace: (current: unknown, path: string) => unknown
+): unknown {
+  if (patterns.length === 0) {
+    return value;
+  }
+
+  const compiled = patterns.map(compilePathPattern);
+  let replaced = false;
+
+  function walk(node: unknown, path: string): unknown {
+    if (compiled.some((pattern) => pattern.test(path))) {
+      replaced = true;
+      return replace(node, path);
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, i) => walk(item, joinPath(path, i)));
+    }
+    if (typeof node === 'object' && node !== null && Object.getPrototypeOf(node) === Object.prototype) {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        result[key] = walk(child, joinPath(path, key));
+      }
+      return result;
+    }
+    return node;
+  }
+
+  const result = walk(value, '$');
+  return replaced ? result : value;
+}
+
+/**
+ * Structurally diff two values.
+ * Both sides are normalized with toJsonValue() first, objects are compared by key
+ * regardless of order and arrays are compared index by index.
+ *
+ * @example
+ * ```typescript
+ * diffJson({ user: { zip: '123' } }, { user: { zip: '124' } });
+ * // [{ kind: 'changed', path: '$.user.zip', expected: '123', actual: '124' }]
+ * ```
+ */
+export function diffJson(expected: unknown, actual: unknown): DiffChange[] {
+  const changes: DiffChange[] = [];
+  diffNode(toJsonValue(expected), toJsonValue(actual), '$', changes);
+  return changes;
+}
+
+function diffNode(expected: unknown, actual: unknown, path: string, changes: DiffChange[]): void {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = joinPath(path, i);
+      if (i >= actual.length) {
+        changes.push({ kind: 'removed', path: childPath, expected: expected[i] });
+      } else if (i >= expected.length) {
+        changes.push({ kind: 'added', path: childPath, actual: actual[i] });
+      } else {
+        diffNode(expected[i], actual[i], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of [...keys].sort()) {
+      const childPath = joinPath(path, key);
+      if (!(key in actual)) {
+        changes.push({ kind: 'removed', path: childPath, expected: expected[key] });
+      } else if (!(key in expected)) {
+        changes.push({ kind: 'added', path: childPath, actual: actual[key] });
+      } else {
+        diffNode(expected[key], actual[key], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (expected !== actual) {
+    changes.push({ kind: 'changed', path, expected, actual });
+  }
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Render changes as one plain line per change, e.g.
+ * `$.user.addresses[2].zip: expected "123" got "124"`.
+ */
+export function renderPlainDiff(changes: DiffChange[]): string {
+  return changes
+    .map((change) => {
+      switch (change.kind) {
+        case 'added':
+          return `${change.path}: unexpected ${formatValue(change.actual)}`;
+        case 'removed':
+          return `${change.path}: missing, expected ${formatValue(change.expected)}`;
+        case 'changed':
+          return `${change.path}: expected ${formatValue(change.expected)} got ${formatValue(change.actual)}`;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Render a unified line diff of two stringified values.
+ * Pass stableStringify() output so key order doesn't show up as a change.
+ */
+export function renderUnifiedDiff(expected: string, actual: string, options: RenderDiffOptions = {}): string {
+  const paint = (code: string, line: string) => (options.color ? `${code}${line}${ANSI_RESET}` : line);
+
+  const lines = diffLines(expected.split('\n'), actual.split('\n'));
+  const body = lines.map((line) => {
+    if (line.startsWith('-')) return paint(ANSI_RED, line);
+    if (line.startsWith('+')) return paint(ANSI_GREEN, line);
+    return paint(ANSI_DIM, line);
+  });
+
+  return [paint(ANSI_RED, '- Expected'), paint(ANSI_GREEN, '+ Received'), '', ...body].join('\n');
+}
+
+/**
+ * Line diff based on the longest common subsequence.
+ * Unchanged lines are prefixed with two spaces, removed with "- " and added with "+ ".
+ * Lines shared at the start and end are skipped before building the LCS table, and when
+ * the table would still exceed MAX_LINE_DIFF_CELLS the changed lines are listed in full.
+ */
+function diffLines(expected: string[], actual: string[]): string[] {
+  let start = 0;
+  while (start < expected.length && start < actual.length && expected[start] === actual[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < expected.length - start &&
+    end < actual.length - start &&
+    expected[expected.length - 1 - end] === actual[actual.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const removed = expected.slice(start, expected.length - end);
+  const added = actual.slice(start, actual.length - end);
+  const changed = removed.length * added.length > MAX_LINE_DIFF_CELLS
+    ? [...removed.map((line) => `- ${line}`), ...added.map((line) => `+ ${line}`)]
+    : diffLinesLcs(removed, added);
+
+  return [
+    ...expected.slice(0, start).map((line) => `  ${line}`),
+    ...changed,
+    ...expected.slice(expected.length - end).map((line) => `  ${line}`),
+  ];
+}
+
+function diffLinesLcs(expected: string[], actual: string[]): string[] {
+  const lcs: number[][] = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(actual.length + 1).fill(0)
+  );
+
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length && j < actual.length) {
+    if (expected[i] === actual[j]) {
+      out.push(`  ${expected[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push(`- ${expected[i++]}`);
+    } else {
+      out.push(`+ ${actual[j++]}`);
+    }
+  }
+  while (i < expected.length) out.push(`- ${expected[i++]}`);
+  while (j < actual.length) out.push(`+ ${actual[j++]}`);
+
+  return out;
+}
@@ -1,40 +1,83 @@
 import { Polly, type PollyConfig } from '@pollyjs/core';
-import FetchAdapter from '@pollyjs/adapter-fetch';
+import NodeHttpAdapter from '@pollyjs/adapter-node-http';
+import XHRAdapter from '@pollyjs/adapter-xhr';
 import FSPersister from '@pollyjs/persister-fs';
+import { syncBuiltinESMExports } from 'node:module';
 import { join } from 'node:path';
-import { readFile } from 'node:fs/promises';
-import { existsSync } from 'node:fs';
-import { TimeController, type TimeControlConfig, type TimeContext } from './time-controller';
+import { stableStringify } from './json-diff';
+import { describeHarEntry, describeRequest, loadHar, type HarEntry, type HarLog } from './har';
+import { graphqlBodyNormalizer } from './graphql';
+import {
+  DEFAULT_EXTERNAL_BODY_THRESHOLD,
+  extractBinaryBodies,
+  getMimeType,
+  hashBody,
+  parseMultipart,
+  pruneExternalBodies,
+  readExternalBody,
+  readRecordedRequestBody,
+  toBuffer,
+  writeExternalBodies,
+  type BodyDecoder,
+  type ExternalBody,
+} from './bodies';
+import {
+  StreamingFetchAdapter,
+  getRequestChunks,
+  setRequestChunks,
+  type StreamingOptions,
+} from './streaming';
+import { createRedactor, type RedactionRules, type Redactor } from './redaction';
+import {
+  createSecretScanner,
+  formatSecretFindings,
+  loadSecretAllowlist,
+  SECRET_ALLOWLIST_FILE,
+  type SecretFinding,
+  type SecretScanner,
+  type SecretScannerOptions,
+} from './secret-scanner';
+import {
+  setupWebSocketRecorder,
+  WEBSOCKET_RECORDING_FILE,
+  type WebSocketConnectionRecording,
+  type WebSocketOptions,
+  type WebSocketRecorder,
+} from './websocket-recorder';
+import { diagnoseUnmatchedRequest } from './request-diagnostics';
+import {
+  appendDriftReport,
+  checkEntryDrift,
+  formatContractDrift,
+  type ContractDrift,
+  type VerifyOptions,
+} from './contract-drift';
+import { createHostModeResolver, installHostModes, parseRealApis, type HostModes } from './host-modes';
+import { attachFetchContext, runInFetchContext, type FetchContext } from './request-routing';
+import { formatAge, getRecordingDate, type StaleRecordingPolicy } from './recording-age';
+import { TimeController, parseDuration, type TimeControlConfig, type TimeContext } from './time-controller';
 
 // Extend PollyConfig to include properties missing from types
-interface ExtendedPollyConfig extends PollyConfig {
+interface ExtendedPollyConfig extends Omit<PollyConfig, 'adapterOptions'> {
   recordingId?: string;
+  adapterOptions?: PollyConfig['adapterOptions'] & { fetch?: { streaming?: StreamingOptions } };
 }
 
-// HAR types for loading recordings
-interface HarEntry {
-  startedDateTime: string;
-  request: {
-    method: string;
-    url: string;
-  };
-  response: {
-    content: {
-      text?: string;
-    };
-  };
-}
-
-interface HarLog {
-  log: {
-    entries: HarEntry[];
-  };
-}
-
-// Register adapters once on module load
-Polly.register(FetchAdapter);
+// Register adapters once on module load.
+// StreamingFetchAdapter replaces @pollyjs/adapter-fetch under the same 'fetch' id.
+Polly.register(StreamingFetchAdapter);
+Polly.register(NodeHttpAdapter);
+Polly.register(XHRAdapter);
 Polly.register(FSPersister);
 
+/**
+ * HTTP clients that can be intercepted.
+ * - 'fetch': global fetch
+ * - 'node-http': node:http / node:https (axios, got, AWS SDK and other Node SDKs)
+ * - 'xhr': global XMLHttpRequest (needs a DOM environment such as happy-dom or jsdom)
+ */
+export type NetworkAdapter = 'fetch' | 'node-http' | 'xhr';
+
 /**
  * Body normalizer function type.
  * Transform request bodies before matching to handle dynamic content.
@@ -66,6 +109,258 @@ export function defaultBodyNormalizer(body: string): string {
   }
 }
 
+/**
+ * Rules for deciding whether a request matches a recorded one.
+ * Method, URL and the normalized body are always compared.
+ */
+export interface RequestMatchingOptions {
+  /**
+   * Request headers that must match (case-insensitive), e.g. ['accept', 'x-tenant-id'].
+   * Other headers are ignored.
+   * @default []
+   */
+  headers?: string[];
+
+  /**
+   * Query parameter rules. To drop parameters entirely, use ignoreQueryParams.
+   */
+  queryParams?: {
+    /**
+     * Per-parameter normalizers, e.g. { page: () => '*' }.
+     */
+    normalize?: Record<string, (value: string | string[]) => string | string[]>;
+  };
+
+  /**
+   * Compare JSON bodies semantically (key order and whitespace don't matter).
+   * Applied after the body normalizer. Non-JSON bodies are compared as strings.
+   * @default false
+   */
+  jsonBody?: boolean;
+
+  /**
+   * Match GraphQL requests by operation name, normalized query and variables,
+   * ignoring query formatting, variable key order and extensions.
+   * Applied after the body normalizer. Other bodies are unaffected.
+   * @default false
+   */
+  graphql?: boolean;
+
+  /**
+   * Compare multipart bodies (file uploads) part by part, by name, filename,
+   * content type and content, so random boundaries don't affect matching.
+   * Binary parts are compared by hash.
+   * @default false
+   */
+  multipart?: boolean;
+
+  /**
+   * Decoders for binary request bodies by content type, e.g.
+   * { 'application/x-protobuf': (body) => JSON.stringify(MyMessage.decode(body)) }.
+   * Decoded text goes through the body normalizer. Binary bodies without a decoder
+   * match byte for byte.
+   */
+  bodyDecoders?: Record<string, BodyDecoder>;
+
+  /**
+   * Match requests in order, for APIs where the same request legitimately
+   * returns different results in sequence.
+   * @default false
+   */
+  order?: boolean;
+}
+
+/**
+ * URL normalizer function type.
+ * Transform request URLs before matching to handle dynamic content.
+ */
+export type UrlNormalizer = (url: string) => string;
+
+export interface UrlNormalizationOptions {
+  urlNormalizer?: UrlNormalizer;
+  ignoreQueryParams?: string[];
+  hostAliases?: Record<string, string>;
+  queryParamNormalizers?: NonNullable<RequestMatchingOptions['queryParams']>['normalize'];
+}
+
+/**
+ * Convert a host pattern like '*.preview.example.com' or 'localhost:*' into a regex.
+ */
+function hostPatternToRegex(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Create a URL normalizer from declarative options.
+ * Applies host aliases, drops ignored query params, normalizes individual params,
+ * sorts the query string and finally runs the custom urlNormalizer.
+ * Returns null when nothing is configured, so URLs are left untouched.
+ */
+export function createUrlNormalizer(options: UrlNormalizationOptions): UrlNormalizer | null {
+  const aliases = Object.entries(options.hostAliases ?? {}).map(([pattern, host]) => ({
+    regex: hostPatternToRegex(pattern),
+    host,
+  }));
+  const ignoredParams = new Set(options.ignoreQueryParams ?? []);
+  const paramNormalizers = options.queryParamNormalizers ?? {};
+
+  if (
+    aliases.length === 0 &&
+    ignoredParams.size === 0 &&
+    Object.keys(paramNormalizers).length === 0 &&
+    !options.urlNormalizer
+  ) {
+    return null;
+  }
+
+  return (url: string) => {
+    let normalized = url;
+
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+
+      const alias = aliases.find((a) => a.regex.test(parsed.host));
+      if (alias) {
+        parsed.host = alias.host;
+        if (!alias.host.includes(':')) {
+          parsed.port = '';
+        }
+      }
+
+      for (const key of [...parsed.searchParams.keys()]) {
+        if (ignoredParams.has(key)) {
+          parsed.searchParams.delete(key);
+        }
+      }
+
+      for (const [key, normalize] of Object.entries(paramNormalizers)) {
+        const values = parsed.searchParams.getAll(key);
+        if (values.length === 0) continue;
+        const result = normalize(values.length === 1 ? values[0] : values);
+        parsed.searchParams.delete(key);
+        for (const value of [result].flat()) {
+          parsed.searchParams.append(key, value);
+        }
+      }
+
+      parsed.searchParams.sort();
+      normalized = parsed.toString();
+    } catch {
+      // Not an absolute URL, only the custom normalizer applies
+    }
+
+    return options.urlNormalizer ? options.urlNormalizer(normalized) : normalized;
+  };
+}
+
+/**
+ * Create the body normalization used for matching: redaction, the body normalizer,
+ * GraphQL normalization when graphql is enabled, then canonical JSON when jsonBody is enabled.
+ *
+ * Multipart bodies are split into parts when multipart is enabled, and binary bodies
+ * go through their decoder. Binary bodies without a decoder are returned as is.
+ */
+function createBodyMatcher(matching: RequestMatchingOptions, bodyNormalizer: BodyNormalizer, redactor: Redactor) {
+  const decoders = new Map(
+    Object.entries(matching.bodyDecoders ?? {}).map(([type, decoder]) => [type.toLowerCase(), decoder])
+  );
+
+  const normalizeText = (body: string): string => {
+    let normalized = bodyNormalizer(redactor.redactRequestBody(body));
+    if (matching.graphql) {
+      normalized = graphqlBodyNormalizer(normalized);
+    }
+    if (!matching.jsonBody) {
+      return normalized;
+    }
+    try {
+      return stableStringify(JSON.parse(normalized), 0);
+    } catch {
+      return normalized;
+    }
+  };
+
+  return <T>(body: T, contentType?: string): T | string => {
+    const mimeType = getMimeType(contentType);
+    const buffer = typeof body === 'string' ? null : toBuffer(body);
+
+    if (matching.multipart && mimeType.startsWith('multipart/') && (typeof body === 'string' || buffer)) {
+      const parts = parseMultipart(buffer ?? (body as string), contentType);
+      if (parts) {
+        const normalized = parts.map((part) =>
+          part.body.startsWith('sha256:') ? part : { ...part, body: normalizeText(part.body) }
+        );
+        return stableStringify(normalized, 0);
+      }
+    }
+
+    if (buffer) {
+      const decoder = decoders.get(mimeType);
+      return decoder ? normalizeText(decoder(buffer)) : body;
+    }
+
+    return typeof body === 'string' ? normalizeText(body) : body;
+  };
+}
+
+/**
+ * Build Polly's matchRequestsBy config from matching options.
+ * Options left unset keep Polly's identifiers unchanged, so existing recordings still match.
+ */
+function buildMatchRequestsBy(
+  matching: RequestMatchingOptions,
+  bodyNormalizer: BodyNormalizer,
+  urlNormalizer: UrlNormalizer | null,
+  redactor: Redactor
+): NonNullable<PollyConfig['matchRequestsBy']> {
+  const headerNames = (matching.headers ?? []).map((h) => h.toLowerCase());
+  const normalizeBody = createBodyMatcher(matching, bodyNormalizer, redactor);
+
+  return {
+    headers: headerNames.length > 0
+      ? (headers) => {
+          const picked: Record<string, string | string[]> = {};
+          for (const name of headerNames) {
+            if (headers[name] !== undefined) {
+              picked[name] = headers[name];
+            }
+          }
+          return picked;
+        }
+      : false,
+    order: matching.order ?? false,
+    body(body: unknown, req: { getHeader(name: string): string | string[] | null }) {
+      // node-http passes binary bodies as Buffers
+      const contentType = req.getHeader('content-type');
+      return normalizeBody(body, Array.isArray(contentType) ? contentType[0] : (contentType ?? undefined));
+    },
+    // Redacted query params are matched by placeholder, not by their recorded value
+    url: urlNormalizer
+      ? (url: string) => urlNormalizer(redactor.redactUrl(url))
+      : { query: (query: Record<string, unknown>) => redactor.redactQuery(query) },
+  };
+}
+
+/**
+ * Which recorded entries a replayed test used.
+ */
+export interface ReplayUsage {
+  /**
+   * Entries in recording.har that were never replayed.
+   */
+  unused: HarEntry[];
+
+  /**
+   * Entries replayed more than once, with their replay count.
+   */
+  replayedMultiple: { entry: HarEntry; count: number }[];
+}
+
 export interface NetworkRecorderOptions {
   /**
    * Name for this recording, used as the directory name.
@@ -79,12 +374,40 @@ export interface NetworkRecorderOptions {
   recordingsDir: string;
 
   /**
-   * Force a specific mode. If not provided, uses REAL_APIS env var.
+   * Force a specific mode. If not provided, uses the REAL_APIS and VERIFY_APIS env vars.
    * - 'replay': Use saved recordings (default)
    * - 'record': Hit real APIs and save recordings
    * - 'passthrough': Pass through without recording
+   * - 'verify': Hit real APIs and report responses that drifted from the recordings, without saving
+   *
+   * REAL_APIS can also name hosts (`REAL_APIS=stripe,github`): requests to them are
+   * recorded and everything else is replayed. An explicit mode ignores REAL_APIS.
+   */
+  mode?: 'replay' | 'record' | 'passthrough' | 'verify';
+
+  /**
+   * Modes for individual hosts in record and replay mode, keyed by hostname
+   * or by wildcard ('*.stripe.com'), e.g. { localhost: 'passthrough', 'api.stripe.com': 'replay' }.
+   * Requests to other hosts use the mode of the test.
+   */
+  hosts?: HostModes;
+
+  /**
+   * Recording IDs (with hash suffix) searched, in order, when replaying a request
+   * this recording doesn't have. Used to replay setup traffic from suite recordings.
+   */
+  fallbackRecordings?: string[];
+
+  /**
+   * How verify mode compares live responses with the recordings.
+   */
+  verify?: VerifyOptions;
+
+  /**
+   * HTTP clients to intercept.
+   * @default ['fetch']
    */
-  mode?: 'replay' | 'record' | 'passthrough';
+  adapters?: NetworkAdapter[];
 
   /**
    * Headers to redact from recordings.
@@ -92,18 +415,113 @@ export interface NetworkRecorderOptions {
    */
   headersToRedact?: string[];
 
+  /**
+   * Redact secrets in query params, JSON and form bodies and cookies.
+   * Each rule replaces its default (common token fields and all cookies).
+   * Redacted values are replaced by a fixed placeholder, in recordings and in
+   * live requests before matching, so replay still matches.
+   */
+  redact?: RedactionRules;
+
+  /**
+   * Scan recordings for secrets (token formats, high-entropy strings and values of
+   * secret env vars) after redaction, and refuse to save them if any are found.
+   * False positives can be listed in secret-allowlist.txt in the recordings directory.
+   * @default true
+   */
+  secretScan?: boolean | SecretScannerOptions;
+
   /**
    * Custom body normalizer for request matching.
    * Useful for removing timestamps or dynamic IDs.
    */
   bodyNormalizer?: BodyNormalizer;
 
+  /**
+   * Binary request and response bodies larger than this many bytes are stored
+   * as files in a bodies/ directory next to recording.har instead of base64 inside it.
+   * @default 102400 (100 KiB)
+   */
+  externalBodyThreshold?: number;
+
+  /**
+   * Custom URL normalizer for request matching.
+   * Runs after ignoreQueryParams and hostAliases.
+   */
+  urlNormalizer?: UrlNormalizer;
+
+  /**
+   * Query params dropped from URLs before matching,
+   * e.g. cache busters and signatures: ['_', 'signature'].
+   */
+  ignoreQueryParams?: string[];
+
+  /**
+   * Map per-run hosts to a stable host before matching.
+   * Keys may use `*` wildcards, e.g. { '*.preview.example.com': 'preview.example.com', 'localhost:*': 'localhost' }.
+   */
+  hostAliases?: Record<string, string>;
+
+  /**
+   * Rules for matching requests against recordings.
+   * By default only method, URL and normalized body are compared.
+   */
+  requestMatching?: RequestMatchingOptions;
+
   /**
    * Whether to record failed requests.
    * @default true
    */
   recordFailedRequests?: boolean;
 
+  /**
+   * Strict replay: check that every recorded entry was replayed.
+   * - true: verifyReplayUsage() throws when entries were never replayed
+   * - 'warn': unused entries are only logged
+   * Entries replayed more than once are always logged in strict mode.
+   * Recorded WebSocket connections and client messages that were never used count as unused.
+   * The check runs in verifyReplayUsage(), not in stop(): pollyTest calls it only after
+   * the test passed, since a failed test leaves entries unused anyway.
+   * @default false
+   */
+  strict?: boolean | 'warn';
+
+  /**
+   * Maximum age of a recording, measured from the startedDateTime of its first request.
+   * Milliseconds or a duration like '90d' or '12 weeks'. Checked in replay mode only.
+   */
+  maxRecordingAge?: string | number;
+
+  /**
+   * What to do with recordings older than maxRecordingAge.
+   * - 'warn': replay them and log a warning
+   * - 'fail': start() throws
+   * - 'rerecord': record them again, if every variable in recordingCredentials is set (warns otherwise)
+   * @default 'warn'
+   */
+  staleRecordings?: StaleRecordingPolicy;
+
+  /**
+   * Environment variables holding the API credentials needed to re-record,
+   * e.g. ['STRIPE_API_KEY']. Used by staleRecordings: 'rerecord'.
+   */
+  recordingCredentials?: string[];
+
+  /**
+   * Record streamed responses (SSE, NDJSON) chunk by chunk and replay them
+   * as a ReadableStream. Applies to the fetch adapter.
+   */
+  streaming?: StreamingOptions;
+
+  /**
+   * Record WebSocket connections opened through the global WebSocket, with every
+   * message and its timing, in websocket.json next to recording.har.
+   * Replay runs a scripted fake server that checks client messages against the
+   * recording and sends the recorded server messages back.
+   * @default false
+   */
+  websockets?: boolean | WebSocketOptions;
+
   /**
    * Enable time control. When enabled in replay mode, time is frozen
    * to the recording time (startedDateTime from HAR).
@@ -131,8 +549,10 @@ const DEFAULT_HEADERS_TO_REDACT = [
  *
  * In replay mode (default): Uses existing recordings from fixtures
  * In record mode (REAL_APIS=true): Hits real APIs and updates recordings
+ * In verify mode (VERIFY_APIS=true): Hits real APIs and reports drift from recordings
  *
- * Security: API keys and auth tokens are automatically redacted from recordings.
+ * Security: API keys and auth tokens are automatically redacted from recordings,
+ * and recordings that still contain secret-looking values are not saved.
  *
  * @example
  * ```typescript
@@ -148,124 +568,423 @@ const DEFAULT_HEADERS_TO_REDACT = [
 export function setupNetworkRecorder(options: NetworkRecorderOptions) {
   let polly: Polly | null = null;
   let timeController: TimeController | null = null;
+  let websocketRecorder: WebSocketRecorder | null = null;
+  let scanner: SecretScanner | null = null;
   let harEntries: HarEntry[] = [];
+  // Polly patches this recorder's own fetch, and the global fetch routes requests to it
+  const fetchContext: FetchContext = {};
+  let detachFetch: (() => void) | null = null;
+  // Replay counts keyed by HAR entry id and order
+  const replayCounts = new Map<string, number>();
 
-  const isRealMode = options.mode === 'record' || process.env.REAL_APIS === 'true';
-  const mode: PollyConfig['mode'] = options.mode ?? (isRealMode ? 'record' : 'replay');
+  // An explicit mode wins over REAL_APIS and VERIFY_APIS
+  const realApis = options.mode ? false : parseRealApis(process.env.REAL_APIS);
+  // Switched to real mode in start() when a stale recording is re-recorded
+  let isRealMode = options.mode ? options.mode === 'record' : realApis === true;
+  const isVerifyMode = options.mode ? options.mode === 'verify' : !isRealMode && process.env.VERIFY_APIS === 'true';
+  let mode: PollyConfig['mode'] = isVerifyMode
+    ? 'passthrough'
+    : options.mode && options.mode !== 'verify' ? options.mode : isRealMode ? 'record' : 'replay';
+
+  // Hosts can be replayed in real mode and recorded in replay mode
+  const resolveHostMode = createHostModeResolver(options.hosts ?? {}, Array.isArray(realApis) ? realApis : []);
+  const hasHostModes = Object.keys(options.hosts ?? {}).length > 0 || Array.isArray(realApis);
+  // Live responses that differ from the recording, in verify mode
+  const drift: ContractDrift[] = [];
 
   const recordingsDir = options.recordingsDir;
+  const adapters = options.adapters ?? ['fetch'];
   const headersToRedact = options.headersToRedact ?? DEFAULT_HEADERS_TO_REDACT;
   const bodyNormalizer = options.bodyNormalizer ?? defaultBodyNormalizer;
+  const redactor = createRedactor(options.redact);
+  const urlNormalizer = createUrlNormalizer({
+    urlNormalizer: options.urlNormalizer,
+    ignoreQueryParams: options.ignoreQueryParams,
+    hostAliases: options.hostAliases,
+    queryParamNormalizers: options.requestMatching?.queryParams?.normalize,
+  });
+  const normalizeUrl = (url: string) => {
+    const redacted = redactor.redactUrl(url);
+    return urlNormalizer ? urlNormalizer(redacted) : redacted;
+  };
+  const normalizeBody = createBodyMatcher(options.requestMatching ?? {}, bodyNormalizer, redactor);
+  // Binary bodies without a decoder are shown by hash in diagnostics
+  const describeBody = (body: string | Buffer, contentType?: string): string => {
+    const normalized = normalizeBody(body, contentType);
+    return typeof normalized === 'string' ? normalized : hashBody(normalized);
+  };
 
   /**
-   * Load HAR file and return parsed content.
+   * Find the HAR entry that matches a given request.
    */
-  async function loadHar(recordingName: string): Promise<HarLog | null> {
-    const harPath = join(recordingsDir, recordingName, 'recording.har');
+  function findEntryForRequest(method: string, url: string): HarEntry | undefined {
+    const normalizedUrl = normalizeUrl(url);
+    return harEntries.find(
+      (entry) => entry.request.method === method && normalizeUrl(entry.request.url) === normalizedUrl
+    );
+  }
 
-    if (!existsSync(harPath)) {
-      return null;
-    }
+  /**
+   * Get which recorded entries have been replayed so far.
+   */
+  function getReplayUsage(): ReplayUsage {
+    const usage: ReplayUsage = { unused: [], replayedMultiple: [] };
 
-    try {
-      const content = await readFile(harPath, 'utf-8');
-      return JSON.parse(content) as HarLog;
-    } catch {
-      return null;
+    for (const entry of harEntries) {
+      const hostMode = resolveHostMode(entry.request.url);
+      // Entries of hosts that aren't replayed can't be used
+      if (hostMode && hostMode !== 'replay') {
+        continue;
+      }
+      const count = replayCounts.get(`${entry._id}:${entry._order}`) ?? 0;
+      if (count === 0) {
+        usage.unused.push(entry);
+      } else if (count > 1) {
+        usage.replayedMultiple.push({ entry, count });
+      }
     }
+
+    return usage;
   }
 
   /**
-   * Find the HAR entry that matches a given request.
+   * Create the Polly instance and wire up redaction, replay and time control. Called by start().
    */
-  function findEntryForRequest(method: string, url: string): HarEntry | undefined {
-    return harEntries.find(
-      (entry) => entry.request.method === method && entry.request.url === url
-    );
-  }
-
-  return {
-    /**
-     * Start recording/replaying HTTP requests.
-     */
-    async start() {
-      const config: ExtendedPollyConfig = {
-        mode,
-        logLevel: process.env.AGENT === '1' || process.env.QUIET === '1' ? 'silent' : 'warn',
-        adapters: ['fetch'],
-        persister: 'fs',
-        persisterOptions: {
-          fs: {
-            recordingsDir,
-          },
-        },
-        recordingId: options.recordingName,
-        recordIfMissing: false,
-        matchRequestsBy: {
-          headers: false,
-          order: false,
-          body(body: string) {
-            return bodyNormalizer(body);
-          },
+  async function connect(): Promise<Polly> {
+    const config: ExtendedPollyConfig = {
+      mode,
+      logLevel: process.env.AGENT === '1' || process.env.QUIET === '1' ? 'silent' : 'warn',
+      adapters,
+      adapterOptions: {
+        fetch: { streaming: options.streaming, context: fetchContext },
+      },
+      persister: 'fs',
+      persisterOptions: {
+        fs: {
+          recordingsDir,
         },
-        recordFailedRequests: options.recordFailedRequests ?? true,
-      };
+      },
+      recordingId: options.recordingName,
+      recordIfMissing: false,
+      matchRequestsBy: buildMatchRequestsBy(options.requestMatching ?? {}, bodyNormalizer, urlNormalizer, redactor),
+      recordFailedRequests: options.recordFailedRequests ?? true,
+    };
+
+    if (adapters.includes('fetch')) {
+      detachFetch = attachFetchContext(fetchContext);
+    }
+    polly = new Polly(options.recordingName, config as PollyConfig);
 
-      polly = new Polly(options.recordingName, config as PollyConfig);
+    // Use polly.recordingId which includes the hash suffix matching the actual directory
+    const har = isRealMode && !hasHostModes ? null : await loadHar(join(recordingsDir, polly.recordingId, 'recording.har'));
 
-      // Redact sensitive headers from recordings
-      const { server } = polly;
+    // Stale recordings are checked before anything is wired up for replay
+    const maxAge = options.maxRecordingAge === undefined ? null : parseDuration(options.maxRecordingAge);
+    const recordedAt = har && maxAge !== null ? getRecordingDate(har) : null;
+    const age = recordedAt ? Date.now() - recordedAt.getTime() : 0;
+    if (mode === 'replay' && maxAge !== null && age > maxAge) {
+      const policy = options.staleRecordings ?? 'warn';
+      const missingCredentials = (options.recordingCredentials ?? []).filter((name) => !process.env[name]);
+      const message =
+        `Recording ${join(polly.recordingId, 'recording.har')} is ${formatAge(age)} old, ` +
+        `older than maxRecordingAge (${formatAge(maxAge)}).`;
 
-      server.any().on('beforePersist', (_req, recording) => {
-        // Redact from request headers
-        if (recording.request.headers && Array.isArray(recording.request.headers)) {
-          for (const headerObj of recording.request.headers) {
-            if (headersToRedact.some(h => headerObj.name.toLowerCase().includes(h.toLowerCase()))) {
-              headerObj.value = '[REDACTED]';
-            }
+      if (policy === 'fail') {
+        throw new Error(`${message}\nRe-record it with REAL_APIS=true.`);
+      }
+
+      if (policy === 'rerecord' && missingCredentials.length === 0) {
+        console.warn(`[pollytest] ${message} Re-recording it.`);
+        isRealMode = true;
+        mode = 'record';
+        polly.record();
+      } else if (policy === 'rerecord') {
+        console.warn(`[pollytest] ${message} Set ${missingCredentials.join(', ')} to re-record it.`);
+      } else {
+        console.warn(`[pollytest] ${message} Re-record it with REAL_APIS=true.`);
+      }
+    }
+
+    if (adapters.includes('node-http')) {
+      // Point named ESM imports (`import { request } from 'node:http'`) at the patched functions
+      syncBuiltinESMExports();
+    }
+
+    // Redact sensitive headers, query params, bodies and cookies from recordings
+    const { server } = polly;
+    scanner = options.secretScan === false
+      ? null
+      : createSecretScanner({
+          ...(typeof options.secretScan === 'object' ? options.secretScan : {}),
+          allowlist: [
+            ...loadSecretAllowlist(recordingsDir),
+            ...((typeof options.secretScan === 'object' && options.secretScan.allowlist) || []),
+          ],
+        });
+    const secretFindings: SecretFinding[] = [];
+    // Written once the recording is saved, so a refused save leaves no body files behind
+    const pendingBodies: ExternalBody[] = [];
+
+    const recordingDir = join(recordingsDir, polly.recordingId);
+    const externalBodyThreshold = options.externalBodyThreshold ?? DEFAULT_EXTERNAL_BODY_THRESHOLD;
+
+    server.any().on('beforePersist', async (_req, recording) => {
+      // Redact from request headers
+      if (recording.request.headers && Array.isArray(recording.request.headers)) {
+        for (const headerObj of recording.request.headers) {
+          if (headersToRedact.some(h => headerObj.name.toLowerCase().includes(h.toLowerCase()))) {
+            headerObj.value = '[REDACTED]';
           }
         }
+      }
 
-        // Redact from response headers
-        if (recording.response.headers && Array.isArray(recording.response.headers)) {
-          for (const headerObj of recording.response.headers) {
-            if (headersToRedact.some(h => headerObj.name.toLowerCase().includes(h.toLowerCase()))) {
-              headerObj.value = '[REDACTED]';
-            }
+      // Redact from response headers
+      if (recording.response.headers && Array.isArray(recording.response.headers)) {
+        for (const headerObj of recording.response.headers) {
+          if (headersToRedact.some(h => headerObj.name.toLowerCase().includes(h.toLowerCase()))) {
+            headerObj.value = '[REDACTED]';
+          }
+        }
+      }
+
+      redactor.redactEntry(recording);
+
+      const chunks = getRequestChunks(_req);
+      if (chunks) {
+        recording.response.content._chunks = chunks;
+      }
+
+      pendingBodies.push(...extractBinaryBodies(recording, _req.body, externalBodyThreshold));
+
+      if (scanner) {
+        secretFindings.push(...scanner.scanEntry(recording));
+      }
+    });
+
+    // Refuse to write recordings that still contain secrets.
+    // Entries are scanned one by one above; the check runs once all of them are collected.
+    const persister = polly.persister;
+    if (persister) {
+      const onSaveRecording = persister.onSaveRecording.bind(persister);
+      persister.onSaveRecording = async (recordingId, har) => {
+        if (secretFindings.length > 0) {
+          throw new Error(
+            `Refusing to save ${join(recordingId, 'recording.har')}: possible secrets found\n\n` +
+              `${formatSecretFindings(secretFindings)}\n\n` +
+              'Redact them with headersToRedact or redact, or list false positives in ' +
+              `${join(recordingsDir, SECRET_ALLOWLIST_FILE)}.`
+          );
+        }
+        await writeExternalBodies(join(recordingsDir, recordingId), pendingBodies.splice(0));
+        await onSaveRecording(recordingId, har);
+        // Body files of entries that were re-recorded or dropped
+        await pruneExternalBodies(join(recordingsDir, recordingId), (har as HarLog).log.entries);
+      };
+    }
+
+    if (hasHostModes) {
+      installHostModes(polly, resolveHostMode);
+    }
+
+    // Requests missing from this recording are looked up in the fallback recordings
+    const fallbackRecordings = options.fallbackRecordings ?? [];
+    if (persister && fallbackRecordings.length > 0 && (!isRealMode || hasHostModes)) {
+      const fallbacks = await Promise.all(
+        fallbackRecordings.map(async (recordingId) => ({
+          recordingId,
+          entries: (await loadHar(join(recordingsDir, recordingId, 'recording.har')))?.log.entries ?? [],
+        }))
+      );
+      const findEntry = persister.findEntry.bind(persister);
+      persister.findEntry = async (pollyRequest) => {
+        const entry = await findEntry(pollyRequest);
+        if (entry) {
+          return entry;
+        }
+        for (const { recordingId, entries } of fallbacks) {
+          // Order counts differ between recordings, so any entry of the same request will do
+          const found =
+            entries.find((e) => e._id === pollyRequest.id && e._order === pollyRequest.order) ??
+            entries.find((e) => e._id === pollyRequest.id);
+          if (found) {
+            return { ...found, _recordingId: recordingId } as unknown as Awaited<ReturnType<typeof findEntry>>;
           }
         }
+        return null;
+      };
+    }
+
+    if (!isRealMode || hasHostModes) {
+      harEntries = har?.log.entries ?? [];
+
+      server.any().on('beforeReplay', (req, recording) => {
+        // Fallback entries don't count towards this recording's replay usage
+        const entryDir = recording._recordingId ? join(recordingsDir, recording._recordingId) : recordingDir;
+        if (!recording._recordingId) {
+          const key = `${recording._id}:${recording._order}`;
+          replayCounts.set(key, (replayCounts.get(key) ?? 0) + 1);
+        }
+
+        if (recording.response.content._chunks) {
+          setRequestChunks(req, recording.response.content._chunks);
+        }
+
+        if (recording.response.content._file) {
+          recording.response.content.text = readExternalBody(entryDir, recording.response.content._file).toString('base64');
+        }
       });
 
-      // Set up time control in replay mode if enabled
-      if (options.timeControl && !isRealMode) {
-        // Use polly.recordingId which includes the hash suffix matching the actual directory
-        const har = await loadHar(polly.recordingId);
-
-        if (har?.log.entries.length) {
-          harEntries = har.log.entries;
-          const firstEntry = har.log.entries[0];
-
-          if (firstEntry?.startedDateTime) {
-            timeController = new TimeController(options.timeControlOptions);
-            timeController.install(firstEntry.startedDateTime);
-
-            // Hook into Polly to transform response timestamps
-            server.any().on('beforeResponse', (req, res) => {
-              if (timeController && res.body && typeof res.body === 'string') {
-                const entry = findEntryForRequest(req.method, req.url);
-                if (entry) {
-                  res.body = timeController.transformResponseTimestamps(
-                    res.body,
-                    new Date(entry.startedDateTime)
-                  );
-                }
-              }
-            });
+      // Explain replay misses by pointing at the closest recorded requests.
+      // Polly only looks up entries to replay them, so a miss is always an unmatched request.
+      if (persister) {
+        const findEntry = persister.findEntry.bind(persister);
+        persister.findEntry = async (pollyRequest) => {
+          const entry = await findEntry(pollyRequest);
+          if (entry) {
+            return entry;
           }
+
+          throw new Error(
+            diagnoseUnmatchedRequest(
+              {
+                method: pollyRequest.method,
+                url: redactor.redactUrl(pollyRequest.url),
+                body: typeof pollyRequest.body === 'string' ? redactor.redactRequestBody(pollyRequest.body) : pollyRequest.body,
+                headers: pollyRequest.headers,
+              },
+              harEntries,
+              {
+                normalizeUrl,
+                normalizeBody: describeBody,
+                readBody: (entry) => readRecordedRequestBody(entry, recordingDir),
+                headers: options.requestMatching?.headers ?? [],
+                recordingPath: join(polly?.recordingId ?? options.recordingName, 'recording.har'),
+              }
+            )
+          );
+        };
+      }
+    }
+
+    if (isVerifyMode) {
+      // Compare every live response with the entry Polly would have replayed for it
+      server.any().on('response', (req, res) => {
+        const entry =
+          harEntries.find((e) => e._id === req.id && e._order === req.order) ??
+          harEntries.find((e) => e._id === req.id);
+
+        if (!entry) {
+          const body = typeof req.body === 'string' ? req.body : undefined;
+          drift.push({
+            request: describeRequest(req.method, req.url, body),
+            differences: [{ part: 'request', detail: 'not in the recording' }],
+          });
+          return;
+        }
+
+        const found = checkEntryDrift(
+          entry,
+          {
+            status: res.statusCode,
+            headers: res.headers,
+            body: typeof res.body === 'string' && res.encoding !== 'base64' ? redactor.redactResponseBody(res.body) : undefined,
+          },
+          options.verify
+        );
+        if (found) {
+          drift.push(found);
+        }
+      });
+    }
+
+    // Verify mode records connections to the real server, but never saves them
+    if (options.websockets && (mode !== 'passthrough' || isVerifyMode)) {
+      websocketRecorder = setupWebSocketRecorder({
+        ...(typeof options.websockets === 'object' ? options.websockets : {}),
+        mode: isRealMode || isVerifyMode ? 'record' : 'replay',
+        file: join(recordingsDir, polly.recordingId, WEBSOCKET_RECORDING_FILE),
+        redactor,
+        normalizeUrl,
+        normalizeMessage: normalizeBody,
+      });
+      await websocketRecorder.install();
+    }
+
+    // Set up time control in replay mode if enabled
+    if (options.timeControl && !isRealMode && !isVerifyMode) {
+      if (harEntries.length || websocketRecorder) {
+        // Tests that only use WebSockets start at their first connection
+        const firstEntry = harEntries[0] ?? websocketRecorder?.getRecordedConnections()[0];
+
+        if (firstEntry?.startedDateTime) {
+          timeController = new TimeController(options.timeControlOptions);
+          timeController.install(firstEntry.startedDateTime);
+
+          // Hook into Polly to transform response timestamps
+          server.any().on('beforeResponse', (req, res) => {
+            if (timeController && res.body && typeof res.body === 'string') {
+              const entry = findEntryForRequest(req.method, req.url);
+              if (entry) {
+                res.body = timeController.transformResponseTimestamps(
+                  res.body,
+                  new Date(entry.startedDateTime)
+                );
+              }
+            }
+          });
         }
       }
+    }
 
-      return polly;
+    return polly;
+  }
+
+  /**
+   * Undo what connect() set up before it threw, so later requests aren't routed to this recorder.
+   * Nothing has been recorded yet, so there is nothing to save.
+   */
+  async function disconnectAfterFailedStart(): Promise<void> {
+    timeController?.uninstall();
+    timeController = null;
+    websocketRecorder?.uninstall();
+    websocketRecorder = null;
+    harEntries = [];
+
+    const failed = polly;
+    polly = null;
+    try {
+      await failed?.stop();
+    } catch {
+      // The error start() rethrows says more than one from stopping
+    } finally {
+      detachFetch?.();
+      detachFetch = null;
+      if (adapters.includes('node-http')) {
+        syncBuiltinESMExports();
+      }
+    }
+  }
+
+  return {
+    /**
+     * Start recording/replaying HTTP requests.
+     */
+    async start() {
+      if (adapters.includes('xhr') && typeof (globalThis as { XMLHttpRequest?: unknown }).XMLHttpRequest === 'undefined') {
+        throw new Error(
+          "The 'xhr' adapter needs a global XMLHttpRequest. Register a DOM environment (e.g. happy-dom or jsdom) first."
+        );
+      }
+      if (options.timeControl && !isRealMode && !isVerifyMode) {
+        TimeController.assertClockAvailable();
+      }
+
+      try {
+        return await connect();
+      } catch (error) {
+        await disconnectAfterFailedStart();
+        throw error;
+      }
     },
 
     /**
@@ -278,15 +997,187 @@ export function setupNetworkRecorder(options: NetworkRecorderOptions) {
         timeController = null;
       }
       harEntries = [];
+      replayCounts.clear();
+      drift.length = 0;
+
+      const websockets = websocketRecorder;
+      websocketRecorder = null;
+      websockets?.uninstall();
+      const recordingId = polly?.recordingId ?? options.recordingName;
 
       if (polly) {
-        await polly.flush();
-        await polly.stop();
-        await polly.disconnect();
-        polly = null;
+        try {
+          await polly.flush();
+          await polly.stop();
+          await polly.disconnect();
+        } finally {
+          polly = null;
+          detachFetch?.();
+          detachFetch = null;
+          if (adapters.includes('node-http')) {
+            syncBuiltinESMExports();
+          }
+        }
+      }
+
+      if (websockets && isRealMode) {
+        // Same check as recording.har, on the redacted text messages
+        const secretScanner = scanner;
+        const findings = secretScanner
+          ? websockets.getRecording().connections.flatMap((connection) =>
+              connection.frames.flatMap((frame, i) =>
+                frame.binary
+                  ? []
+                  : secretScanner.scanMessage(frame.data, `frames[${i}] (${frame.direction})`, `WebSocket ${connection.url}`)
+              )
+            )
+          : [];
+        if (findings.length > 0) {
+          throw new Error(
+            `Refusing to save ${join(recordingId, WEBSOCKET_RECORDING_FILE)}: possible secrets found\n\n` +
+              `${formatSecretFindings(findings)}\n\n` +
+              'Redact them with redact, or list false positives in ' +
+              `${join(recordingsDir, SECRET_ALLOWLIST_FILE)}.`
+          );
+        }
+        await websockets.save();
+      }
+    },
+
+    /**
+     * Disconnect from the HTTP clients without stopping, so another recorder can
+     * intercept them for a while. Requests recorded so far are saved by stop().
+     * WebSockets and time control are not paused.
+     */
+    async pause() {
+      if (!polly) {
+        return;
+      }
+      await polly.flush();
+      polly.pause();
+      if (adapters.includes('node-http')) {
+        syncBuiltinESMExports();
       }
     },
 
+    /**
+     * Reconnect to the HTTP clients after pause().
+     */
+    resume() {
+      if (!polly) {
+        return;
+      }
+      // Reconnecting creates new adapters, which need the host modes again
+      polly.play();
+      if (hasHostModes) {
+        installHostModes(polly, resolveHostMode);
+      }
+      if (adapters.includes('node-http')) {
+        syncBuiltinESMExports();
+      }
+    },
+
+    /**
+     * Run fn with its fetch requests, including those of timers and promises it starts,
+     * routed to this recorder while other recorders are running. Requests made outside
+     * run() go to the recorder started last.
+     */
+    run<T>(fn: () => T): T {
+      return runInFetchContext(fetchContext, fn);
+    },
+
+    /**
+     * Get which recorded entries have been replayed so far.
+     * Always empty in real mode.
+     */
+    getReplayUsage,
+
+    /**
+     * Enforce the strict option: report entries that were never replayed
+     * (throwing when strict is true) and entries replayed more than once.
+     * Always throws when WebSocket client messages didn't match the recording.
+     * Call this before stop(), once the test body has finished successfully;
+     * stop() doesn't check replay usage itself.
+     */
+    verifyReplayUsage() {
+      if (isRealMode || isVerifyMode) {
+        return;
+      }
+
+      // Client messages that differ from the recording fail the test even without strict
+      const mismatches = websocketRecorder?.getMismatches() ?? [];
+      if (mismatches.length > 0) {
+        throw new Error(
+          `WebSocket messages don't match ${join(polly?.recordingId ?? options.recordingName, WEBSOCKET_RECORDING_FILE)}:\n` +
+            mismatches.map((mismatch) => `  ${mismatch}`).join('\n') +
+            '\nRe-record with REAL_APIS=true if the messages changed on purpose.'
+        );
+      }
+
+      if (!options.strict) {
+        return;
+      }
+
+      const { unused, replayedMultiple } = getReplayUsage();
+      const unusedWebSockets = websocketRecorder?.getUnused() ?? [];
+      const recordingPath = join(polly?.recordingId ?? options.recordingName, 'recording.har');
+
+      if (replayedMultiple.length > 0) {
+        console.warn(
+          `[pollytest] Entries replayed more than once in ${recordingPath}:\n` +
+            replayedMultiple.map(({ entry, count }) => `  ${describeHarEntry(entry)} (${count}x)`).join('\n')
+        );
+      }
+
+      if (unused.length === 0 && unusedWebSockets.length === 0) {
+        return;
+      }
+
+      const message =
+        `Recorded requests were never replayed in ${recordingPath}:\n` +
+        [...unused.map(describeHarEntry), ...unusedWebSockets].map((line) => `  ${line}`).join('\n') +
+        '\nThe test no longer makes these requests. Re-record with REAL_APIS=true to drop them.';
+
+      if (options.strict === 'warn') {
+        console.warn(`[pollytest] ${message}`);
+        return;
+      }
+
+      throw new Error(message);
+    },
+
+    /**
+     * Report live responses that drifted from the recording in verify mode, throwing
+     * unless verify.onDrift is 'warn'. Does nothing in other modes.
+     * Call this before stop(), once the test body has finished.
+     */
+    verifyContract() {
+      if (!isVerifyMode || drift.length === 0) {
+        return;
+      }
+
+      const recordingPath = join(polly?.recordingId ?? options.recordingName, 'recording.har');
+      const message =
+        `${formatContractDrift(recordingPath, drift)}\n\n` +
+        'Re-record with REAL_APIS=true once the changes are handled.';
+
+      if (options.verify?.onDrift === 'warn') {
+        console.warn(`[pollytest] ${message}`);
+        appendDriftReport(recordingPath, drift);
+        return;
+      }
+
+      throw new Error(message);
+    },
+
+    /**
+     * Get live responses that drifted from the recording so far.
+     * Always empty outside verify mode.
+     */
+    getContractDrift(): ContractDrift[] {
+      return [...drift];
+    },
+
     /**
      * Get the underlying Polly instance.
      */
@@ -296,9 +1187,17 @@ export function setupNetworkRecorder(options: NetworkRecorderOptions) {
 
     /**
      * Check if running in real API mode.
+     * True in verify mode too, since requests hit the real APIs.
      */
     isRealMode() {
-      return isRealMode;
+      return isRealMode || isVerifyMode;
+    },
+
+    /**
+     * Check if running in verify mode.
+     */
+    isVerifyMode() {
+      return isVerifyMode;
     },
 
     /**
@@ -316,6 +1215,14 @@ export function setupNetworkRecorder(options: NetworkRecorderOptions) {
     getTimeContext(): TimeContext | null {
       return timeController?.getContext() ?? null;
     },
+
+    /**
+     * Get the WebSocket connections opened so far, with their messages.
+     * Returns null if websockets is disabled.
+     */
+    getWebSocketConnections(): WebSocketConnectionRecording[] | null {
+      return websocketRecorder?.getConnections() ?? null;
+    },
   };
 }
 
@@ -0,0 +1,56 @@
+import { after, before, describe, test, type TestOptions } from 'node:test';
+import { createPollyTestForRunner, type PollyTestOptions, type TestCaseOverrides, type TestRunner } from './polly-test-core';
+
+export * from './core';
+
+/**
+ * Options for a single pollyTest: node:test options plus overrides for this test.
+ */
+export interface PollyTestCaseOptions extends TestOptions, TestCaseOverrides {}
+
+/**
+ * node:test has no failing tests: pass when fn throws, fail when it doesn't.
+ */
+function expectFailure(fn: () => Promise<void>): () => Promise<void> {
+  return async () => {
+    try {
+      await fn();
+    } catch {
+      return;
+    }
+    throw new Error('Expected the test to fail, but it passed.');
+  };
+}
+
+const nodeRunner: TestRunner<TestOptions> = {
+  test: (name, fn, options) => void test(name, options ?? {}, fn),
+  // Only runs alone with `node --test --test-only`
+  only: (name, fn, options) => void test(name, { ...options, only: true }, fn),
+  skip: (name, fn, options) => void test(name, { ...options, skip: true }, fn),
+  failing: (name, fn, options) => void test(name, options ?? {}, expectFailure(fn)),
+  // Tests in a file run one after another; concurrency is set per describe block in node:test
+  concurrent: (name, fn, options) => void test(name, options ?? {}, fn),
+  todo: (name, fn, options) => void test(name, { ...options, todo: true }, fn),
+  if: (condition) => (name, fn, options) => void test(name, { ...options, skip: !condition }, fn),
+  skipIf: (condition) => (name, fn, options) => void test(name, { ...options, skip: condition }, fn),
+  describe: (name, fn) => void describe(name, fn),
+  beforeAll: (fn) => before(fn),
+  afterAll: (fn) => after(fn),
+};
+
+/**
+ * Creates a pollyTest function that registers node:test tests.
+ * Same API as the Bun version, with node:test options.
+ *
+ * @example
+ * ```typescript
+ * import { createPollyTest } from '@zdavison/pollytest/node-test';
+ *
+ * const pollyTest = createPollyTest({
+ *   recordingsDir: 'tests/fixtures/recordings',
+ * });
+ * ```
+ */
+export function createPollyTest(globalOptions: PollyTestOptions) {
+  return createPollyTestForRunner(nodeRunner, globalOptions);
+}
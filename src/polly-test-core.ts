@@ -0,0 +1,1034 @@
+import { execSync } from 'node:child_process';
+import { join, relative } from 'node:path';
+import { setupNetworkRecorder, type NetworkRecorder, type NetworkRecorderOptions } from './network-recorder';
+import { SnapshotManager, DEFAULT_SNAPSHOT_NAME, formatCompareResult } from './snapshot-manager';
+import type { PropertyMatchers } from './snapshot-matchers';
+import type { SnapshotSerializer } from './snapshot-serializers';
+import { getCallSite, writeInlineSnapshot } from './inline-snapshot';
+import { findIndexedRecordingName, indexTest, updateRecordingIndex } from './recording-index';
+import type { TimeContext, TimeControlConfig } from './time-controller';
+import type { WebSocketConnectionRecording } from './websocket-recorder';
+
+/**
+ * Get the git root directory.
+ */
+function getGitRoot(): string {
+  try {
+    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim();
+  } catch {
+    throw new Error('Could not find git root. Make sure you are in a git repository.');
+  }
+}
+
+/**
+ * Overrides for a single pollyTest, passed along with the test runner's own test options.
+ */
+export interface TestCaseOverrides {
+  /**
+   * Force the mode of this test, e.g. 'record' to re-record just this one.
+   * Ignores REAL_APIS and VERIFY_APIS.
+   */
+  mode?: NetworkRecorderOptions['mode'];
+
+  /**
+   * Host modes for this test, on top of the hosts option of createPollyTest.
+   */
+  hosts?: NetworkRecorderOptions['hosts'];
+
+  /**
+   * Stable ID of this test in recordings.json. The test keeps the recording it was first
+   * recorded under when it is renamed or moved to another file. Needs the recording index.
+   */
+  id?: string;
+}
+
+/**
+ * Context passed to pollyTest test functions.
+ */
+export interface PollyTestContext {
+  /**
+   * Snapshot data for this test.
+   * In real API mode the data is saved. In replay mode it is compared
+   * against the stored snapshot and the test fails on mismatch
+   * (or the snapshot is rewritten when updateSnapshots is enabled).
+   *
+   * Pass property matchers for non-deterministic fields. Matched values are stored
+   * as placeholders and only checked by type/shape in replay.
+   *
+   * Call it several times per test by naming each snapshot. Unnamed calls
+   * are numbered automatically ("default", "2", "3", ...).
+   * In replay, snapshots on disk that the test never used fail the test.
+   *
+   * @example
+   * ```typescript
+   * await snapshot(data, { id: any(String), createdAt: isoDate() });
+   * await snapshot(session, 'after-login');
+   * ```
+   */
+  snapshot: {
+    (data: unknown, matchers?: PropertyMatchers): Promise<void>;
+    (data: unknown, name: string, matchers?: PropertyMatchers): Promise<void>;
+  };
+
+  /**
+   * Snapshot data inline in the test source.
+   * In real API mode the calling test file is rewritten so the serialized value
+   * becomes the second argument. In replay mode the data is compared against
+   * that literal (which is rewritten instead when updateSnapshots is enabled).
+   *
+   * @example
+   * ```typescript
+   * await inlineSnapshot(todo.title, "delectus aut autem");
+   * ```
+   */
+  inlineSnapshot: (data: unknown, snapshot?: unknown) => Promise<void>;
+
+  /**
+   * Load previously saved snapshot data.
+   * Reads the default snapshot unless a name is given.
+   */
+  loadSnapshot: <T = unknown>(name?: string) => Promise<T | null>;
+
+  /**
+   * Check if running in real API mode. True in verify mode too.
+   */
+  isRealMode: boolean;
+
+  /**
+   * Check if running in verify mode: real APIs, compared against recordings without saving.
+   * Snapshots are neither saved nor compared in verify mode.
+   */
+  isVerifyMode: boolean;
+
+  /**
+   * The recording name for this test.
+   */
+  recordingName: string;
+
+  /**
+   * Time control context. Null in real mode or if timeControl is disabled.
+   * Provides methods to control and advance time during tests.
+   */
+  time: TimeContext | null;
+
+  /**
+   * WebSocket connections opened so far in this test, with the messages sent and
+   * received on each. The list updates as the test runs. Null if websockets is disabled.
+   */
+  websockets: WebSocketConnectionRecording[] | null;
+}
+
+/**
+ * A pollyTest test function. Rows of pollyTest.each are passed after the context.
+ */
+export type PollyTestFn<Args extends unknown[] = []> = (ctx: PollyTestContext, ...args: Args) => Promise<void> | void;
+
+// Arguments a pollyTest.each row is passed as: spread for array rows
+type EachArgs<Row> = Row extends readonly unknown[] ? [...Row] : [Row];
+
+/**
+ * A test function of a test runner: test, test.only, test.skip, ...
+ */
+export type RunnerTestFunction<Options> = (name: string, fn: () => Promise<void>, options?: Options) => void;
+
+/**
+ * How pollyTest registers tests and hooks with a test runner.
+ * Runners without a modifier emulate it (e.g. if() as test or test.skip).
+ */
+export interface TestRunner<Options> {
+  test: RunnerTestFunction<Options>;
+  only: RunnerTestFunction<Options>;
+  skip: RunnerTestFunction<Options>;
+
+  /**
+   * Passes when fn throws and fails when it doesn't.
+   */
+  failing: RunnerTestFunction<Options>;
+  concurrent: RunnerTestFunction<Options>;
+
+  /**
+   * A test still to be written; fn is only passed on runners that can run todo tests.
+   */
+  todo: (name: string, fn?: () => Promise<void>, options?: Options) => void;
+  if: (condition: boolean) => RunnerTestFunction<Options>;
+  skipIf: (condition: boolean) => RunnerTestFunction<Options>;
+  describe: (name: string, fn: () => void) => void;
+  beforeAll: (fn: () => Promise<void>) => void;
+  afterAll: (fn: () => Promise<void>) => void;
+}
+
+export interface PollyTestOptions {
+  /**
+   * Directory for recordings and snapshots.
+   * Relative to git root.
+   */
+  recordingsDir: string;
+
+  /**
+   * Keep recordings.json in the recordings directory up to date when tests record: an index
+   * of the tests and the directories of their recordings, used by `pollytest mv` and
+   * `pollytest doctor`, and to find the recordings of tests with an id option.
+   * @default true
+   */
+  recordingIndex?: boolean;
+
+  /**
+   * Force the mode of every test, ignoring REAL_APIS and VERIFY_APIS.
+   * Tests can override it with their own mode option.
+   */
+  mode?: NetworkRecorderOptions['mode'];
+
+  /**
+   * Modes for individual hosts, e.g. { localhost: 'passthrough', 'api.stripe.com': 'replay' }.
+   * Keys are hostnames or wildcards like '*.stripe.com'.
+   */
+  hosts?: NetworkRecorderOptions['hosts'];
+
+  /**
+   * HTTP clients to intercept, e.g. ['fetch', 'node-http'].
+   * @default ['fetch']
+   */
+  adapters?: NetworkRecorderOptions['adapters'];
+
+  /**
+   * Headers to redact from recordings.
+   */
+  headersToRedact?: string[];
+
+  /**
+   * Redaction rules for query params, bodies and cookies.
+   */
+  redact?: NetworkRecorderOptions['redact'];
+
+  /**
+   * Record streamed responses (SSE, NDJSON) chunk by chunk and replay them as a ReadableStream.
+   */
+  streaming?: NetworkRecorderOptions['streaming'];
+
+  /**
+   * Record and replay WebSocket connections, in websocket.json next to recording.har.
+   * Pass { pace: true } to replay server messages with their recorded delays.
+   * @default false
+   */
+  websockets?: NetworkRecorderOptions['websockets'];
+
+  /**
+   * Binary bodies larger than this many bytes are stored in bodies/ next to recording.har.
+   * @default 102400 (100 KiB)
+   */
+  externalBodyThreshold?: NetworkRecorderOptions['externalBodyThreshold'];
+
+  /**
+   * Refuse to save recordings that contain secrets.
+   * @default true
+   */
+  secretScan?: NetworkRecorderOptions['secretScan'];
+
+  /**
+   * Custom body normalizer for request matching.
+   */
+  bodyNormalizer?: NetworkRecorderOptions['bodyNormalizer'];
+
+  /**
+   * Custom URL normalizer for request matching.
+   */
+  urlNormalizer?: NetworkRecorderOptions['urlNormalizer'];
+
+  /**
+   * Query params dropped from URLs before matching (e.g. ['_', 'signature']).
+   */
+  ignoreQueryParams?: string[];
+
+  /**
+   * Map per-run hosts to a stable host before matching (keys may use `*` wildcards).
+   */
+  hostAliases?: Record<string, string>;
+
+  /**
+   * Rules for matching requests against recordings (headers, query params,
+   * semantic JSON bodies, ordering).
+   */
+  requestMatching?: NetworkRecorderOptions['requestMatching'];
+
+  /**
+   * Strict replay: fail the test (true) or warn ('warn') when recorded requests
+   * were never replayed. Requests replayed more than once are reported too.
+   * Only checked once the test has passed.
+   * @default false
+   */
+  strict?: NetworkRecorderOptions['strict'];
+
+  /**
+   * How verify mode (VERIFY_APIS=true) compares live responses with the recordings:
+   * headers to compare, whether to compare values as well as shape, paths to ignore,
+   * and whether drift fails the test or only warns.
+   */
+  verify?: NetworkRecorderOptions['verify'];
+
+  /**
+   * Maximum age of recordings, in milliseconds or as a duration like '90d'.
+   * Older recordings are handled according to staleRecordings.
+   */
+  maxRecordingAge?: NetworkRecorderOptions['maxRecordingAge'];
+
+  /**
+   * Warn about ('warn'), fail on ('fail') or re-record ('rerecord') recordings
+   * older than maxRecordingAge. 'rerecord' needs the recordingCredentials to be set.
+   * @default 'warn'
+   */
+  staleRecordings?: NetworkRecorderOptions['staleRecordings'];
+
+  /**
+   * Environment variables holding API credentials, e.g. ['STRIPE_API_KEY'].
+   * Stale recordings are only re-recorded when all of them are set.
+   */
+  recordingCredentials?: NetworkRecorderOptions['recordingCredentials'];
+
+  /**
+   * Enable time control. When enabled in replay mode, time is frozen
+   * to the recording time (startedDateTime from HAR).
+   * @default false
+   */
+  timeControl?: boolean;
+
+  /**
+   * Options for time control behavior.
+   */
+  timeControlOptions?: TimeControlConfig;
+
+  /**
+   * Rewrite mismatching or missing snapshots in replay mode instead of failing.
+   * Recordings are still replayed, so no network requests are made.
+   * Defaults to the UPDATE_SNAPSHOTS env var.
+   * @default false
+   */
+  updateSnapshots?: boolean;
+
+  /**
+   * JSONPath-style paths ignored in every snapshot, e.g. '$.data.id' or 'items[*].createdAt'.
+   * Values at these paths are stored as "[ignored]" and never compared.
+   */
+  snapshotIgnorePaths?: string[];
+
+  /**
+   * Custom snapshot serializers, tried before the built-ins by their test() function.
+   * Each snapshot file's extension comes from the serializer that wrote it.
+   */
+  snapshotSerializers?: SnapshotSerializer[];
+
+  /**
+   * Serializer used for values no serializer's test() accepts:
+   * 'json' (stable key order), 'yaml', 'text', 'binary' or a custom serializer's name.
+   * @default 'json'
+   */
+  defaultSnapshotSerializer?: string;
+}
+
+/**
+ * A pollyTest.describe block and its suite recording.
+ */
+interface SuiteScope {
+  recordingName: string;
+
+  /**
+   * Recorder for setup traffic, while the block's tests run.
+   */
+  recorder: NetworkRecorder | null;
+  parent: SuiteScope | null;
+}
+
+/**
+ * Recording IDs of a suite and its enclosing suites, innermost first.
+ */
+function getSuiteRecordingIds(suite: SuiteScope | null): string[] {
+  const ids: string[] = [];
+  for (let scope = suite; scope; scope = scope.parent) {
+    const recordingId = scope.recorder?.getRecordingId();
+    if (recordingId) {
+      ids.push(recordingId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Converts a test name to a URL-friendly slug.
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Extracts the test suite name from the calling test file.
+ * Keeps the full filename minus the final extension (ts/tsx/js/jsx).
+ * Example: "simple-chat.integration.test.ts" -> "simple-chat.integration.test"
+ */
+function getTestSuiteName(): string {
+  const error = new Error();
+  const stack = error.stack || '';
+
+  const lines = stack.split('\n');
+  for (const line of lines) {
+    // Match test files (*.test.ts, *.spec.ts, etc.) and capture the full name without extension
+    const match = line.match(/([^/\\]+\.(?:test|spec))\.(ts|tsx|js|jsx)(?::|$|\))/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return 'default';
+}
+
+/**
+ * Parse pollyTest(name, fn, options?) and pollyTest(name, recordingName, fn, options?).
+ * Recording names without a slash are placed under the suite name.
+ */
+function parseTestArgs<Args extends unknown[], Options>(
+  suiteName: string,
+  name: string,
+  recordingNameOrFn: string | PollyTestFn<Args>,
+  fnOrOptions?: PollyTestFn<Args> | Options,
+  options?: Options,
+): { recordingName: string; fn: PollyTestFn<Args>; testOptions?: Options } {
+  if (typeof recordingNameOrFn === 'function') {
+    return {
+      recordingName: `${suiteName}/${slugify(name)}`,
+      fn: recordingNameOrFn,
+      testOptions: fnOrOptions as Options | undefined,
+    };
+  }
+
+  return {
+    recordingName: recordingNameOrFn.includes('/') ? recordingNameOrFn : `${suiteName}/${recordingNameOrFn}`,
+    fn: fnOrOptions as PollyTestFn<Args>,
+    testOptions: options,
+  };
+}
+
+function formatEachValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Format a pollyTest.each name for one row, like test.each in Bun, Vitest and Jest:
+ * %s, %d, %i, %f, %j, %o and %p take the next value of the row, %# is the row index,
+ * and $key or $key.path read from object rows.
+ */
+function formatEachName(template: string, row: unknown, index: number): string {
+  const args = Array.isArray(row) ? row : [row];
+  let next = 0;
+
+  const formatted = template.replace(/%([sdifjop#%])/g, (match, type: string) => {
+    if (type === '%') {
+      return '%';
+    }
+    if (type === '#') {
+      return String(index);
+    }
+    if (next >= args.length) {
+      return match;
+    }
+    const value = args[next++];
+    switch (type) {
+      case 'd':
+      case 'f':
+        return String(Number(value));
+      case 'i':
+        return String(Math.trunc(Number(value)));
+      case 's':
+        return formatEachValue(value);
+      default:
+        return JSON.stringify(value) ?? String(value);
+    }
+  });
+
+  if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+    return formatted;
+  }
+  return formatted.replace(/\$([\w.]+)/g, (match, path: string) => {
+    let value: unknown = row;
+    for (const key of path.split('.')) {
+      value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value === undefined ? match : formatEachValue(value);
+  });
+}
+
+// Tests that only intercept fetch record and replay side by side, since each request is
+// routed to the recorder of the test that made it. Other HTTP clients, WebSockets and time
+// control patch globals of the whole process, so those tests run alone, in every pollyTest config.
+let runningTests = 0;
+let exclusiveTest = false;
+const waitingTests: { exclusive: boolean; start: () => void }[] = [];
+
+function startWaitingTests(): void {
+  while (waitingTests.length > 0 && !exclusiveTest && !(waitingTests[0].exclusive && runningTests > 0)) {
+    const next = waitingTests.shift()!;
+    runningTests++;
+    exclusiveTest = next.exclusive;
+    next.start();
+  }
+}
+
+function withRecorderLock(exclusive: boolean, fn: () => Promise<void>): Promise<void> {
+  return new Promise<void>((start) => {
+    waitingTests.push({ exclusive, start });
+    startWaitingTests();
+  })
+    .then(fn)
+    .finally(() => {
+      runningTests--;
+      exclusiveTest = false;
+      startWaitingTests();
+    });
+}
+
+/**
+ * Strip pollytest's own options before handing the rest to the test runner.
+ */
+function runnerOptions<Options>(options: (Options & TestCaseOverrides) | undefined): Options | undefined {
+  if (!options) {
+    return undefined;
+  }
+  const { mode: _mode, hosts: _hosts, id: _id, ...testOptions } = options;
+  return testOptions as Options;
+}
+
+/**
+ * Creates a pollyTest function that registers its tests with the given test runner.
+ * Each runner entry point (Bun, Vitest, Jest, node:test) wraps this as createPollyTest.
+ */
+export function createPollyTestForRunner<Options extends object>(runner: TestRunner<Options>, globalOptions: PollyTestOptions) {
+  type CaseOptions = Options & TestCaseOverrides;
+
+  const gitRoot = getGitRoot();
+  const recordingsDir = join(gitRoot, globalOptions.recordingsDir);
+
+  // Snapshots are stored next to the recordings
+  const snapshotManager = new SnapshotManager({
+    baseDir: recordingsDir,
+    ignorePaths: globalOptions.snapshotIgnorePaths,
+    serializers: globalOptions.snapshotSerializers,
+    defaultSerializer: globalOptions.defaultSnapshotSerializer,
+  });
+
+  const updateSnapshots = globalOptions.updateSnapshots ?? process.env.UPDATE_SNAPSHOTS === 'true';
+  // Tests that patch more than fetch can't run alongside other tests
+  const exclusive =
+    (globalOptions.adapters ?? ['fetch']).some((adapter) => adapter !== 'fetch') ||
+    Boolean(globalOptions.websockets) ||
+    Boolean(globalOptions.timeControl);
+
+  /**
+   * Create the snapshot functions for a single test run.
+   * Tracks which snapshots were used so leftover files on disk can be flagged.
+   */
+  function createSnapshotSession(snapshotDir: string, isRealMode: boolean, isVerifyMode: boolean) {
+    const used = new Set<string>();
+    let unnamedCount = 0;
+
+    /**
+     * Save the snapshot in real mode, otherwise compare it against the stored one.
+     * Throws with a readable diff when the snapshot doesn't match.
+     */
+    async function snapshot(
+      data: unknown,
+      nameOrMatchers?: string | PropertyMatchers,
+      maybeMatchers?: PropertyMatchers,
+    ): Promise<void> {
+      let snapshotName: string;
+      let matchers: PropertyMatchers | undefined;
+
+      if (typeof nameOrMatchers === 'string') {
+        snapshotName = nameOrMatchers;
+        matchers = maybeMatchers;
+      } else {
+        // Unnamed calls: the first is the default snapshot, then "2", "3", ...
+        unnamedCount++;
+        snapshotName = unnamedCount === 1 ? DEFAULT_SNAPSHOT_NAME : String(unnamedCount);
+        matchers = nameOrMatchers;
+      }
+
+      if (used.has(snapshotName)) {
+        throw new Error(`Snapshot "${snapshotName}" was already used in this test. Give each snapshot a unique name.`);
+      }
+      used.add(snapshotName);
+
+      // Verify mode checks responses, not snapshots, and never writes fixtures
+      if (isVerifyMode) {
+        return;
+      }
+
+      if (isRealMode) {
+        await snapshotManager.save(snapshotDir, data, { snapshotName, matchers });
+        return;
+      }
+
+      const stored = await snapshotManager.load(snapshotDir, snapshotName);
+      const result = snapshotManager.compare(data, stored, matchers);
+
+      if (result.match) {
+        return;
+      }
+
+      if (updateSnapshots) {
+        await snapshotManager.save(snapshotDir, data, { snapshotName, matchers });
+        return;
+      }
+
+      const label = snapshotName === DEFAULT_SNAPSHOT_NAME ? snapshotDir : `${snapshotDir} (${snapshotName})`;
+      throw new Error(formatCompareResult(label, result));
+    }
+
+    /**
+     * Compare against the literal passed as the second argument, or rewrite
+     * the calling test file to embed the value in real mode and update mode.
+     */
+    async function inlineSnapshot(data: unknown, ...literal: unknown[]): Promise<void> {
+      // Must run before the first await so the test file is still on the stack
+      const callSite = getCallSite();
+      if (isVerifyMode) {
+        return;
+      }
+      // A missing literal means no snapshot yet; a literal null is compared as a value
+      const result = literal.length === 0
+        ? snapshotManager.compare(data, null)
+        : snapshotManager.compareValue(data, literal[0]);
+
+      if (result.match) {
+        return;
+      }
+
+      if (!isRealMode && !updateSnapshots) {
+        const location = callSite ? ` at ${callSite.file}:${callSite.line}` : '';
+        throw new Error(formatCompareResult(`${snapshotDir} (inline${location})`, result));
+      }
+
+      if (!callSite) {
+        throw new Error('Could not find the test file calling inlineSnapshot() in the stack trace.');
+      }
+
+      writeInlineSnapshot(callSite, data);
+    }
+
+    async function loadSnapshot<T = unknown>(snapshotName = DEFAULT_SNAPSHOT_NAME): Promise<T | null> {
+      used.add(snapshotName);
+      return snapshotManager.load<T>(snapshotDir, snapshotName);
+    }
+
+    /**
+     * Flag snapshots on disk that this test never used.
+     * They are deleted in real mode and update mode, otherwise the test fails.
+     */
+    async function finish(): Promise<void> {
+      if (isVerifyMode) {
+        return;
+      }
+      const unused = (await snapshotManager.list(snapshotDir)).filter((name) => !used.has(name));
+
+      if (unused.length === 0) {
+        return;
+      }
+
+      if (isRealMode || updateSnapshots) {
+        for (const name of unused) {
+          await snapshotManager.delete(snapshotDir, name);
+        }
+        return;
+      }
+
+      throw new Error(
+        `Unused snapshots in ${snapshotDir}: ${unused.join(', ')}. ` +
+          'Remove them or run with UPDATE_SNAPSHOTS=true to delete them.'
+      );
+    }
+
+    return { snapshot, inlineSnapshot, loadSnapshot, finish };
+  }
+
+  /**
+   * Recorder options for a test or suite recording.
+   */
+  function recorderOptions(recordingName: string, testOptions?: CaseOptions): NetworkRecorderOptions {
+    return {
+      recordingName,
+      recordingsDir,
+      mode: testOptions?.mode ?? globalOptions.mode,
+      hosts: { ...globalOptions.hosts, ...testOptions?.hosts },
+      adapters: globalOptions.adapters,
+      headersToRedact: globalOptions.headersToRedact,
+      redact: globalOptions.redact,
+      secretScan: globalOptions.secretScan,
+      streaming: globalOptions.streaming,
+      websockets: globalOptions.websockets,
+      externalBodyThreshold: globalOptions.externalBodyThreshold,
+      bodyNormalizer: globalOptions.bodyNormalizer,
+      urlNormalizer: globalOptions.urlNormalizer,
+      ignoreQueryParams: globalOptions.ignoreQueryParams,
+      hostAliases: globalOptions.hostAliases,
+      requestMatching: globalOptions.requestMatching,
+      timeControl: globalOptions.timeControl,
+      timeControlOptions: globalOptions.timeControlOptions,
+      strict: globalOptions.strict,
+      verify: globalOptions.verify,
+      maxRecordingAge: globalOptions.maxRecordingAge,
+      staleRecordings: globalOptions.staleRecordings,
+      recordingCredentials: globalOptions.recordingCredentials,
+    };
+  }
+
+  // The pollyTest.describe block whose body is being collected, if any
+  let currentSuite: SuiteScope | null = null;
+
+  /**
+   * Register a test or describe block for recordings.json, under its explicit id or its
+   * recording name. Must be called while the test file is still on the stack.
+   */
+  function addToIndex(indexId: string, recordingName: string, name: string): void {
+    const callSite = globalOptions.recordingIndex === false ? null : getCallSite();
+    if (callSite) {
+      indexTest(recordingsDir, indexId, {
+        file: relative(gitRoot, callSite.file),
+        test: name,
+        ...(indexId !== recordingName && { recordingName }),
+      });
+    }
+  }
+
+  /**
+   * Write a test's entry to recordings.json once its recording or snapshots were written.
+   * Replay never touches the index, so runs that only read recordings leave it as committed.
+   */
+  function updateIndex(indexId: string, recorder: NetworkRecorder): void {
+    const wroteRecording = recorder.isRealMode() && !recorder.isVerifyMode();
+    if (globalOptions.recordingIndex !== false && (wroteRecording || updateSnapshots)) {
+      updateRecordingIndex(recordingsDir, indexId);
+    }
+  }
+
+  /**
+   * Run a test: record or replay its requests, then check snapshots, replay usage
+   * and drift before stopping the recorder.
+   */
+  function runTest(
+    recordingName: string,
+    indexId: string,
+    suite: SuiteScope | null,
+    fn: PollyTestFn,
+    testOptions: CaseOptions | undefined,
+  ): Promise<void> {
+    return withRecorderLock(exclusive, async () => {
+      // Fetch requests of the test are routed to its recorder; clients patched
+      // globally are taken from the suite recording while the test runs
+      if (exclusive) {
+        await suite?.recorder?.pause();
+      }
+      const recorder = setupNetworkRecorder({
+        ...recorderOptions(recordingName, testOptions),
+        fallbackRecordings: getSuiteRecordingIds(suite),
+      });
+
+      try {
+        await recorder.start();
+      } catch (error) {
+        if (exclusive) {
+          suite?.recorder?.resume();
+        }
+        throw error;
+      }
+
+      const isRealMode = recorder.isRealMode();
+      // Use the recording ID (with hash) for snapshots to match recording directory names
+      const snapshotDir = recorder.getRecordingId() ?? recordingName;
+      const snapshots = createSnapshotSession(snapshotDir, isRealMode, recorder.isVerifyMode());
+
+      const context: PollyTestContext = {
+        isRealMode,
+        isVerifyMode: recorder.isVerifyMode(),
+        recordingName,
+        snapshot: snapshots.snapshot,
+        inlineSnapshot: snapshots.inlineSnapshot,
+        loadSnapshot: snapshots.loadSnapshot,
+        time: recorder.getTimeContext(),
+        websockets: recorder.getWebSocketConnections(),
+      };
+
+      try {
+        await recorder.run(() => fn(context));
+        await snapshots.finish();
+        recorder.verifyReplayUsage();
+        recorder.verifyContract();
+      } finally {
+        try {
+          await recorder.stop();
+          updateIndex(indexId, recorder);
+        } finally {
+          if (exclusive) {
+            suite?.recorder?.resume();
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Register a test with one of the runner's test functions (test, test.only, test.skip, ...).
+   */
+  function register(
+    runnerTest: RunnerTestFunction<Options>,
+    name: string,
+    recordingName: string,
+    fn: PollyTestFn,
+    testOptions: CaseOptions | undefined,
+  ): void {
+    const suite = currentSuite;
+    const indexId = testOptions?.id ?? recordingName;
+    // Tests with an explicit id keep the recording they were indexed with
+    const testRecordingName =
+      (testOptions?.id && findIndexedRecordingName(recordingsDir, testOptions.id)) || recordingName;
+    addToIndex(indexId, testRecordingName, name);
+    runnerTest(
+      name,
+      () => runTest(testRecordingName, indexId, suite, fn, testOptions),
+      runnerOptions<Options>(testOptions),
+    );
+  }
+
+  /**
+   * Build pollyTest on top of one of the runner's test functions, with its each() variant.
+   */
+  function createVariant(runnerTest: RunnerTestFunction<Options>) {
+    /**
+     * Test function that automatically sets up and tears down Polly.js network recording.
+     *
+     * The recording name is automatically derived from the test name.
+     * You can optionally provide a custom recording name as the second parameter.
+     *
+     * @example
+     * ```typescript
+     * // Automatic recording name
+     * pollyTest('should fetch user data', async ({ snapshot, isRealMode }) => {
+     *   const response = await fetch('https://api.example.com/user');
+     *   const data = await response.json();
+     *
+     *   expect(data.name).toBe('John');
+     *
+     *   await snapshot({ response: data });
+     * });
+     *
+     * // Custom recording name
+     * pollyTest('complex scenario', 'custom/recording-name', async (ctx) => {
+     *   // ...
+     * });
+     * ```
+     */
+    function variant(
+      name: string,
+      recordingNameOrFn: string | PollyTestFn,
+      fnOrOptions?: PollyTestFn | CaseOptions,
+      options?: CaseOptions,
+    ): void {
+      const { recordingName, fn, testOptions } = parseTestArgs(
+        getTestSuiteName(),
+        name,
+        recordingNameOrFn,
+        fnOrOptions,
+        options,
+      );
+      register(runnerTest, name, recordingName, fn, testOptions);
+    }
+
+    /**
+     * One test, and one recording, per row of the table. Rows are passed to the
+     * test function after the context (spread if the row is an array).
+     * Names are formatted like test.each (%s, %d, %j, %#, $key for object rows).
+     * Rows whose names give the same recording name, or the same id, get their index appended.
+     *
+     * @example
+     * ```typescript
+     * pollyTest.each([
+     *   ['alice', 200],
+     *   ['nobody', 404],
+     * ])('fetches user %s', async (ctx, user, status) => {
+     *   const response = await fetch(`https://api.example.com/users/${user}`);
+     *   expect(response.status).toBe(status);
+     * });
+     * ```
+     */
+    variant.each = <Row>(table: readonly Row[]) =>
+      (
+        name: string,
+        recordingNameOrFn: string | PollyTestFn<EachArgs<Row>>,
+        fnOrOptions?: PollyTestFn<EachArgs<Row>> | CaseOptions,
+        options?: CaseOptions,
+      ): void => {
+        const suiteName = getTestSuiteName();
+        const rows = table.map((row, index) => {
+          const rowName = formatEachName(name, row, index);
+          const parsed = parseTestArgs(
+            suiteName,
+            rowName,
+            typeof recordingNameOrFn === 'string' ? formatEachName(recordingNameOrFn, row, index) : recordingNameOrFn,
+            fnOrOptions,
+            options,
+          );
+          const id = parsed.testOptions?.id && formatEachName(parsed.testOptions.id, row, index);
+          return { row, rowName, id, ...parsed };
+        });
+
+        rows.forEach(({ row, rowName, recordingName, id, fn, testOptions }, index) => {
+          const shared = rows.filter((other) => other.recordingName === recordingName).length > 1;
+          const sharedId = id && rows.filter((other) => other.id === id).length > 1;
+          const args = (Array.isArray(row) ? row : [row]) as EachArgs<Row>;
+          register(
+            runnerTest,
+            rowName,
+            shared ? `${recordingName}-${index}` : recordingName,
+            (ctx) => fn(ctx, ...args),
+            id ? ({ ...testOptions, id: sharedId ? `${id}-${index}` : id } as CaseOptions) : testOptions,
+          );
+        });
+      };
+
+    return variant;
+  }
+
+  /**
+   * Describe block with its own recording for setup traffic.
+   *
+   * Requests made in beforeAll, beforeEach, afterEach and afterAll hooks inside the block
+   * are recorded into a suite recording next to the tests' recordings. Tests record their
+   * own requests as usual; in replay, requests a test's recording doesn't have are looked
+   * up in the suite recording (and in those of enclosing blocks).
+   * Suite recordings only cover HTTP clients, not WebSockets or time control.
+   *
+   * @example
+   * ```typescript
+   * pollyTest.describe('billing', () => {
+   *   let token: string;
+   *
+   *   beforeAll(async () => {
+   *     token = await login();
+   *   });
+   *
+   *   pollyTest('creates an invoice', async () => {
+   *     await createInvoice(token);
+   *   });
+   * });
+   * ```
+   */
+  function describeSuite(name: string, fn: () => void): void {
+    const parent = currentSuite;
+    const suite: SuiteScope = {
+      // Nested blocks are stored inside the recording of the enclosing block
+      recordingName: `${parent?.recordingName ?? getTestSuiteName()}/suite-${slugify(name)}`,
+      recorder: null,
+      parent,
+    };
+    addToIndex(suite.recordingName, suite.recordingName, name);
+
+    runner.describe(name, () => {
+      // Registered first, so it runs before the hooks of fn
+      runner.beforeAll(async () => {
+        await parent?.recorder?.pause();
+        try {
+          const recorder = setupNetworkRecorder({
+            ...recorderOptions(suite.recordingName),
+            websockets: false,
+            timeControl: false,
+            fallbackRecordings: getSuiteRecordingIds(parent),
+          });
+          await recorder.start();
+          suite.recorder = recorder;
+        } catch (error) {
+          parent?.recorder?.resume();
+          throw error;
+        }
+      });
+
+      currentSuite = suite;
+      try {
+        fn();
+      } finally {
+        currentSuite = parent;
+      }
+
+      // Registered last, so it runs after the hooks of fn
+      runner.afterAll(async () => {
+        const recorder = suite.recorder;
+        if (!recorder) {
+          // Never started, and beforeAll has resumed the parent already
+          return;
+        }
+        suite.recorder = null;
+        try {
+          recorder.verifyContract();
+        } finally {
+          try {
+            await recorder.stop();
+            updateIndex(suite.recordingName, recorder);
+          } finally {
+            parent?.recorder?.resume();
+          }
+        }
+      });
+    });
+  }
+
+  return Object.assign(createVariant(runner.test), {
+    /**
+     * Run only this test (and other .only tests).
+     */
+    only: createVariant(runner.only),
+
+    /**
+     * Skip this test. Its recording is left untouched.
+     */
+    skip: createVariant(runner.skip),
+
+    /**
+     * A test that is expected to fail: it passes when the test function throws.
+     */
+    failing: createVariant(runner.failing),
+
+    /**
+     * Run alongside other concurrent tests, each recording its own fetch requests.
+     * Tests using other adapters, WebSockets or time control patch process-wide globals,
+     * so they still record and replay one at a time; time spent waiting for other tests
+     * counts towards the timeout.
+     */
+    concurrent: createVariant(runner.concurrent),
+
+    /**
+     * Run the test only if the condition is true.
+     */
+    if: (condition: boolean) => createVariant(runner.if(condition)),
+
+    /**
+     * Skip the test if the condition is true.
+     */
+    skipIf: (condition: boolean) => createVariant(runner.skipIf(condition)),
+
+    /**
+     * A test still to be written, or to be fixed. The function only runs on runners
+     * that can run todo tests, e.g. with `bun test --todo`.
+     */
+    todo: (
+      name: string,
+      recordingNameOrFn?: string | PollyTestFn,
+      fnOrOptions?: PollyTestFn | CaseOptions,
+      options?: CaseOptions,
+    ): void => {
+      if (recordingNameOrFn === undefined) {
+        runner.todo(name);
+        return;
+      }
+      createVariant(runner.todo)(name, recordingNameOrFn, fnOrOptions, options);
+    },
+
+    describe: describeSuite,
+  });
+}
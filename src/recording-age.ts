@@ -0,0 +1,128 @@
+import { existsSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { findHarFiles, loadHar, type HarLog } from './har';
+import { parseDuration } from './time-controller';
+
+/**
+ * What to do with a recording older than maxRecordingAge.
+ * - 'warn': replay it and log a warning
+ * - 'fail': fail the test
+ * - 'rerecord': record it again against the real APIs when credentials are present
+ */
+export type StaleRecordingPolicy = 'warn' | 'fail' | 'rerecord';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Format an age for reports, e.g. '412 days' or '5 hours'.
+ */
+export function formatAge(ms: number): string {
+  const [unit, size] =
+    ms >= DAY ? ['day', DAY]
+    : ms >= HOUR ? ['hour', HOUR]
+    : ms >= MINUTE ? ['minute', MINUTE]
+    : ['second', SECOND];
+  const count = Math.floor(ms / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * When a recording was made: the startedDateTime of its first request.
+ * Null if it has no entries.
+ */
+export function getRecordingDate(har: HarLog): Date | null {
+  const times = har.log.entries
+    .map((entry) => new Date(entry.startedDateTime).getTime())
+    .filter((time) => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+export interface RecordingAge {
+  /**
+   * Path of the recording.har file.
+   */
+  file: string;
+  recordedAt: Date;
+
+  /**
+   * Age in milliseconds at the time of the check.
+   */
+  age: number;
+}
+
+/**
+ * Get the age of every recording under a directory, oldest first.
+ * Recordings without entries are left out.
+ */
+export async function findRecordingAges(dir: string, now = Date.now()): Promise<RecordingAge[]> {
+  const ages: RecordingAge[] = [];
+
+  for (const file of findHarFiles(dir)) {
+    const har = await loadHar(file);
+    const recordedAt = har ? getRecordingDate(har) : null;
+    if (recordedAt) {
+      ages.push({ file, recordedAt, age: now - recordedAt.getTime() });
+    }
+  }
+
+  return ages.sort((a, b) => b.age - a.age);
+}
+
+/**
+ * `pollytest stale [dir] [--max-age 90d]`: list recordings by age, oldest first.
+ * With --max-age only older recordings are listed, and the exit code is 1 when there are any.
+ */
+export async function runStaleCommand(args: string[]): Promise<number> {
+  let maxAge: number | null = null;
+  let dirArg: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--max-age') {
+      maxAge = parseDuration(args[++i] ?? '');
+    } else if (args[i].startsWith('--max-age=')) {
+      maxAge = parseDuration(args[i].slice('--max-age='.length));
+    } else if (!args[i].startsWith('-')) {
+      dirArg = args[i];
+    }
+  }
+
+  const dir = resolve(dirArg ?? '.');
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    return 1;
+  }
+
+  const ages = await findRecordingAges(dir);
+  const listed = maxAge === null ? ages : ages.filter(({ age }) => age > maxAge);
+
+  if (ages.length === 0) {
+    console.log(`No recordings found under ${dir}`);
+    return 0;
+  }
+  if (listed.length === 0) {
+    console.log(`No recordings under ${dir} are older than ${formatAge(maxAge!)}`);
+    return 0;
+  }
+
+  const rows = listed.map(({ file, recordedAt, age }) => [
+    formatAge(age),
+    recordedAt.toISOString().slice(0, 10),
+    relative(process.cwd(), dirname(file)),
+  ]);
+  const width = Math.max(...rows.map(([age]) => age.length));
+  for (const [age, date, path] of rows) {
+    console.log(`${age.padStart(width)}  ${date}  ${path}`);
+  }
+
+  if (maxAge === null) {
+    return 0;
+  }
+  console.log(
+    `\n${listed.length} of ${ages.length} recording(s) are older than ${formatAge(maxAge)}.` +
+      '\nRe-record them with REAL_APIS=true.'
+  );
+  return 1;
+}
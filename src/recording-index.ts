@@ -0,0 +1,472 @@
+import { execSync } from 'node:child_process';
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { findHarFiles, type HarLog } from './har';
+
+/**
+ * Name of the index file in the recordings directory.
+ */
+export const RECORDING_INDEX_FILE = 'recordings.json';
+
+/**
+ * A test, or pollyTest.describe block, and where its recording is stored.
+ */
+export interface RecordingIndexEntry {
+  /**
+   * Recording directory (recording ID with hash suffixes), relative to the recordings directory.
+   */
+  directory: string;
+
+  /**
+   * Test file, relative to the git root.
+   */
+  file: string;
+
+  /**
+   * Test name, or the name of the describe block for suite recordings.
+   */
+  test: string;
+
+  /**
+   * Recording name, for tests indexed under an explicit id. Renaming such a test keeps this one.
+   */
+  recordingName?: string;
+}
+
+/**
+ * Contents of recordings.json, keyed by test ID: the id option of the test if it has one,
+ * otherwise its recording name, e.g. 'basic.test/fetches-a-todo'.
+ */
+export interface RecordingIndex {
+  tests: Record<string, RecordingIndexEntry>;
+}
+
+// 32-bit FNV-1a of the UTF-8 bytes, as @sindresorhus/fnv1a computes it for Polly
+function fnv1a(value: string): number {
+  let hash = 2166136261;
+  for (const byte of Buffer.from(value, 'utf-8')) {
+    hash = Math.imul(hash ^ byte, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// One segment of a recording ID: Polly replaces non-word characters with dashes,
+// slugifies (collapsing and trimming dashes) and caps the result at 100 characters
+function recordingIdSegment(segment: string): string {
+  const hash = String(fnv1a(segment));
+  const slug = segment
+    .replace(/\W/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug.substring(0, 100 - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Get the directory Polly stores a recording in, relative to the recordings directory:
+ * every segment of the recording name slugified, with a hash suffix.
+ *
+ * @example
+ * ```typescript
+ * getRecordingDirectory('basic.test/fetches-a-todo');
+ * // 'basic-test_1908602913/fetches-a-todo_93583532'
+ * ```
+ */
+export function getRecordingDirectory(recordingName: string): string {
+  return recordingName.split('/').map(recordingIdSegment).join('/');
+}
+
+/**
+ * Load recordings.json from a recordings directory. Empty if it doesn't exist.
+ */
+export function loadRecordingIndex(recordingsDir: string): RecordingIndex {
+  try {
+    const index = JSON.parse(readFileSync(join(recordingsDir, RECORDING_INDEX_FILE), 'utf-8')) as RecordingIndex;
+    return { tests: index.tests ?? {} };
+  } catch {
+    return { tests: {} };
+  }
+}
+
+/**
+ * Write recordings.json, sorted by test ID so it diffs cleanly.
+ * Left untouched when nothing changed.
+ */
+export function saveRecordingIndex(recordingsDir: string, index: RecordingIndex): void {
+  const path = join(recordingsDir, RECORDING_INDEX_FILE);
+  const tests = Object.fromEntries(Object.entries(index.tests).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  const content = `${JSON.stringify({ tests }, null, 2)}\n`;
+
+  if (existsSync(path) && readFileSync(path, 'utf-8') === content) {
+    return;
+  }
+
+  // Written to a temporary file first, so test processes running in parallel never read half of it
+  mkdirSync(recordingsDir, { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  writeFileSync(temporary, content);
+  renameSync(temporary, path);
+}
+
+/**
+ * Get the recording name stored in recordings.json for a test with an explicit id.
+ */
+export function findIndexedRecordingName(recordingsDir: string, id: string): string | undefined {
+  return loadRecordingIndex(recordingsDir).tests[id]?.recordingName;
+}
+
+// A lock held longer than this was left behind by a process that died
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Read, change and write recordings.json while holding recordings.json.lock, so test
+ * processes recording in parallel don't overwrite each other's entries.
+ */
+function withRecordingIndexLock<T>(recordingsDir: string, fn: () => T): T {
+  const lock = join(recordingsDir, `${RECORDING_INDEX_FILE}.lock`);
+  const started = Date.now();
+  mkdirSync(recordingsDir, { recursive: true });
+
+  for (;;) {
+    try {
+      closeSync(openSync(lock, 'wx'));
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    let lockedAt: number;
+    try {
+      lockedAt = statSync(lock).mtimeMs;
+    } catch {
+      // Released in the meantime
+      continue;
+    }
+    if (Date.now() - lockedAt > STALE_LOCK_MS) {
+      rmSync(lock, { force: true });
+    } else if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for ${lock}. Delete it if no tests are running.`);
+    } else {
+      // Blocks without timers, which tests may have faked
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 10);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+// Tests registered in this process, by recordings directory, then test file, then test ID
+const registeredTests = new Map<string, Map<string, Map<string, RecordingIndexEntry>>>();
+
+/**
+ * Register a test for the index of its recordings directory, while test files load.
+ * Nothing is written until updateRecordingIndex() is called for it.
+ * Throws if another test already uses the same explicit id.
+ */
+export function indexTest(recordingsDir: string, id: string, entry: Omit<RecordingIndexEntry, 'directory'>): void {
+  const files = registeredTests.get(recordingsDir) ?? new Map<string, Map<string, RecordingIndexEntry>>();
+  registeredTests.set(recordingsDir, files);
+
+  if (entry.recordingName) {
+    for (const tests of files.values()) {
+      const other = tests.get(id);
+      if (other && (other.file !== entry.file || other.test !== entry.test)) {
+        throw new Error(`Test id '${id}' of "${entry.test}" is already used by "${other.test}" in ${other.file}`);
+      }
+    }
+  }
+
+  const tests = files.get(entry.file) ?? new Map<string, RecordingIndexEntry>();
+  files.set(entry.file, tests);
+  tests.set(id, { directory: getRecordingDirectory(entry.recordingName ?? id), ...entry });
+}
+
+/**
+ * Write the registered tests of a test file to recordings.json, after one of them recorded.
+ * Entries of that file are replaced, so tests that were renamed, moved or deleted drop out
+ * of the index, and entries of other files are kept as they are on disk.
+ */
+export function updateRecordingIndex(recordingsDir: string, id: string): void {
+  const files = registeredTests.get(recordingsDir);
+  const file = files && [...files].find(([, tests]) => tests.has(id))?.[0];
+  if (!files || !file) {
+    return;
+  }
+
+  withRecordingIndexLock(recordingsDir, () => {
+    const index = loadRecordingIndex(recordingsDir);
+    for (const [key, entry] of Object.entries(index.tests)) {
+      if (entry.file === file) {
+        delete index.tests[key];
+      }
+    }
+    for (const [key, entry] of files.get(file) ?? []) {
+      index.tests[key] = entry;
+    }
+    saveRecordingIndex(recordingsDir, index);
+  });
+}
+
+function getGitRootOrCwd(): string {
+  try {
+    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return process.cwd();
+  }
+}
+
+/**
+ * Find every recordings.json under a directory, skipping node_modules and .git.
+ */
+function findRecordingIndexes(dir: string): string[] {
+  const files: string[] = [];
+  for (const item of readdirSync(dir, { withFileTypes: true })) {
+    if (item.name === 'node_modules' || item.name === '.git') {
+      continue;
+    }
+    const path = join(dir, item.name);
+    if (item.isDirectory()) {
+      files.push(...findRecordingIndexes(path));
+    } else if (item.name === RECORDING_INDEX_FILE) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Find the directories holding a recording or snapshots under a recordings directory,
+ * relative to it. Directories of external bodies belong to their recording.
+ */
+export function findRecordingDirectories(recordingsDir: string, dir = recordingsDir): string[] {
+  const directories: string[] = [];
+  const items = readdirSync(dir, { withFileTypes: true });
+
+  if (dir !== recordingsDir && items.some((item) => item.isFile())) {
+    directories.push(relative(recordingsDir, dir));
+  }
+  for (const item of items) {
+    if (item.isDirectory() && item.name !== 'bodies') {
+      directories.push(...findRecordingDirectories(recordingsDir, join(dir, item.name)));
+    }
+  }
+  return directories;
+}
+
+/**
+ * Recording directories no current test uses, and tests whose recording is missing.
+ */
+export interface RecordingIndexReport {
+  orphaned: string[];
+  missing: { id: string; entry: RecordingIndexEntry }[];
+}
+
+/**
+ * Compare the recording directories on disk with recordings.json. Entries of test files
+ * that no longer exist don't count, so their recordings are reported as orphaned.
+ */
+export function checkRecordingIndex(recordingsDir: string, gitRoot = getGitRootOrCwd()): RecordingIndexReport {
+  const index = loadRecordingIndex(recordingsDir);
+  const current = Object.entries(index.tests).filter(([, entry]) => existsSync(join(gitRoot, entry.file)));
+  const used = new Set(current.map(([, entry]) => entry.directory));
+
+  return {
+    orphaned: findRecordingDirectories(recordingsDir).filter((directory) => !used.has(directory)),
+    missing: current
+      .filter(([, entry]) => !existsSync(join(recordingsDir, entry.directory)))
+      .map(([id, entry]) => ({ id, entry })),
+  };
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) =>
+    item.isDirectory() ? listFiles(join(dir, item.name)).map((file) => join(item.name, file)) : [item.name]
+  );
+}
+
+/**
+ * Move a directory, merging it into the target if that exists.
+ * Throws before moving anything if a file would be overwritten.
+ */
+function moveDirectory(source: string, target: string): void {
+  if (existsSync(target)) {
+    const conflict = listFiles(source).find((file) => existsSync(join(target, file)));
+    if (conflict) {
+      throw new Error(`${join(target, conflict)} already exists. Delete it first to replace it.`);
+    }
+  }
+
+  const merge = (from: string, to: string) => {
+    if (!existsSync(to)) {
+      mkdirSync(dirname(to), { recursive: true });
+      renameSync(from, to);
+      return;
+    }
+    for (const item of readdirSync(from)) {
+      merge(join(from, item), join(to, item));
+    }
+    rmdirSync(from);
+  };
+  merge(source, target);
+}
+
+/**
+ * Rename a recording, or every recording under a prefix such as a test file's suite name,
+ * in recordings.json and in the recording.har files that store it.
+ */
+function renameRecording(recordingsDir: string, from: string, to: string, target: string): void {
+  const renamed = (name: string) => (name === from || name.startsWith(`${from}/`) ? to + name.slice(from.length) : null);
+
+  for (const file of findHarFiles(target)) {
+    const har = JSON.parse(readFileSync(file, 'utf-8')) as HarLog;
+    const name = har.log._recordingName && renamed(har.log._recordingName);
+    if (name) {
+      har.log._recordingName = name;
+      writeFileSync(file, `${JSON.stringify(har, null, 2)}\n`);
+    }
+  }
+
+  if (!existsSync(join(recordingsDir, RECORDING_INDEX_FILE))) {
+    return;
+  }
+  withRecordingIndexLock(recordingsDir, () => {
+    const index = loadRecordingIndex(recordingsDir);
+    for (const [id, entry] of Object.entries(index.tests)) {
+      // Tests with an explicit id keep it, only their recording moves
+      const name = renamed(entry.recordingName ?? id);
+      if (name && entry.recordingName) {
+        index.tests[id] = { ...entry, recordingName: name, directory: getRecordingDirectory(name) };
+      } else if (name) {
+        delete index.tests[id];
+        // Tests that already ran under their new name keep their own entry
+        index.tests[name] ??= { ...entry, directory: getRecordingDirectory(name) };
+      }
+    }
+    saveRecordingIndex(recordingsDir, index);
+  });
+}
+
+/**
+ * `pollytest mv <from> <to> [dir]` (or `rename`): move the recording and snapshots of a test
+ * to its new name after renaming or moving it. From and to are test IDs as listed in
+ * recordings.json, or suite names (`basic.test`) to move every recording of a test file.
+ */
+export async function runMoveCommand(args: string[]): Promise<number> {
+  const [from, to, dirArg] = args.filter((arg) => !arg.startsWith('-'));
+  if (!from || !to) {
+    console.error('Usage: pollytest mv <from> <to> [dir]');
+    return 1;
+  }
+
+  const dir = resolve(dirArg ?? '.');
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    return 1;
+  }
+
+  // The recordings directory holding the recording, found through its recordings.json
+  const fromDirectory = getRecordingDirectory(from);
+  const recordingsDirs = [dir, ...findRecordingIndexes(dir).map(dirname)].filter(
+    (recordingsDir, i, all) => all.indexOf(recordingsDir) === i && existsSync(join(recordingsDir, fromDirectory))
+  );
+
+  if (recordingsDirs.length === 0) {
+    console.error(`No recording of ${from} found under ${dir}`);
+    return 1;
+  }
+  if (recordingsDirs.length > 1) {
+    console.error(
+      `Recordings of ${from} found in several directories. Pass the one to use:\n` +
+        recordingsDirs.map((recordingsDir) => `  ${relative(process.cwd(), recordingsDir)}`).join('\n')
+    );
+    return 1;
+  }
+
+  const [recordingsDir] = recordingsDirs;
+  const source = join(recordingsDir, fromDirectory);
+  const target = join(recordingsDir, getRecordingDirectory(to));
+  if (statSync(source).isFile()) {
+    console.error(`${source} is not a recording directory`);
+    return 1;
+  }
+
+  moveDirectory(source, target);
+  renameRecording(recordingsDir, from, to, target);
+
+  console.log(`Moved ${relative(process.cwd(), source)} to ${relative(process.cwd(), target)}`);
+  return 0;
+}
+
+/**
+ * `pollytest doctor [dir]`: list recording directories that no current test uses, for every
+ * recordings.json under dir. Exits with 1 when there are any.
+ */
+export async function runDoctorCommand(args: string[]): Promise<number> {
+  const dir = resolve(args.find((arg) => !arg.startsWith('-')) ?? '.');
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    return 1;
+  }
+
+  const indexes = findRecordingIndexes(dir);
+  if (indexes.length === 0) {
+    console.error(`No ${RECORDING_INDEX_FILE} found under ${dir}. Run the tests once to create it.`);
+    return 1;
+  }
+
+  const gitRoot = getGitRootOrCwd();
+  let orphanedCount = 0;
+
+  for (const indexFile of indexes) {
+    const recordingsDir = dirname(indexFile);
+    const { orphaned, missing } = checkRecordingIndex(recordingsDir, gitRoot);
+    orphanedCount += orphaned.length;
+
+    console.log(`${relative(process.cwd(), recordingsDir) || '.'}`);
+    if (orphaned.length === 0) {
+      console.log('  Every recording is used by a test.');
+    } else {
+      console.log('  Orphaned recordings, not used by any test:');
+      for (const directory of orphaned) {
+        // The recording name is what `pollytest mv` takes
+        const harPath = join(recordingsDir, directory, 'recording.har');
+        const har = existsSync(harPath) ? (JSON.parse(readFileSync(harPath, 'utf-8')) as HarLog) : null;
+        console.log(`    ${directory}${har?.log._recordingName ? `  (${har.log._recordingName})` : ''}`);
+      }
+    }
+    // Candidates for the new names of orphaned recordings
+    if (orphaned.length > 0 && missing.length > 0) {
+      console.log('  Tests without a recording:');
+      for (const { id, entry } of missing) {
+        console.log(`    ${id}  (${entry.file})`);
+      }
+    }
+  }
+
+  if (orphanedCount === 0) {
+    return 0;
+  }
+  console.log(
+    `\n${orphanedCount} orphaned recording(s). Move them to their renamed tests with ` +
+      '`pollytest mv <from> <to>`, or delete them.'
+  );
+  return 1;
+}
@@ -0,0 +1,247 @@
+import { replaceAtPaths } from './json-diff';
+import type { HarEntry, HarHeader } from './har';
+
+/**
+ * Placeholder written in place of redacted values.
+ * The same placeholder is applied to live requests before matching,
+ * so redacted recordings still match requests carrying the real secret.
+ */
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+/**
+ * Rules for redacting secrets outside of headers.
+ * Each rule replaces its default when set; pass an empty list to disable it.
+ */
+export interface RedactionRules {
+  /**
+   * URL query params to redact (case-insensitive), e.g. ['api_key'].
+   */
+  queryParams?: string[];
+
+  /**
+   * JSON paths redacted in request bodies, e.g. ['$.client_secret', '$..password'].
+   * Supports `*`, `[*]` and `..` (any depth).
+   */
+  requestBodyPaths?: string[];
+
+  /**
+   * JSON paths redacted in response bodies, e.g. ['$.access_token'].
+   */
+  responseBodyPaths?: string[];
+
+  /**
+   * Fields redacted in form-encoded request and response bodies (case-insensitive).
+   */
+  formFields?: string[];
+
+  /**
+   * Cookie values to redact in Cookie and Set-Cookie headers.
+   * true redacts every cookie, a list redacts cookies by name (case-insensitive).
+   */
+  cookies?: boolean | string[];
+}
+
+const SECRET_FIELDS = ['access_token', 'refresh_token', 'id_token', 'client_secret', 'api_key', 'password'];
+
+export const DEFAULT_REDACTION_RULES: Required<RedactionRules> = {
+  queryParams: ['api_key', 'apikey', 'access_token', 'client_secret'],
+  requestBodyPaths: SECRET_FIELDS.map((field) => `$..${field}`),
+  responseBodyPaths: SECRET_FIELDS.map((field) => `$..${field}`),
+  formFields: SECRET_FIELDS,
+  cookies: true,
+};
+
+const FORM_BODY_REGEX = /^[^=&\s]+=[^&\s]*(?:&[^=&\s]+=?[^&\s]*)*$/;
+
+function decodeName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' ')).toLowerCase();
+  } catch {
+    return name.toLowerCase();
+  }
+}
+
+/**
+ * Replace the values of `name=value` pairs whose name is in the set,
+ * leaving everything else byte-for-byte unchanged.
+ */
+function redactPairs(text: string, names: Set<string>): string {
+  return text
+    .split('&')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      const name = eq === -1 ? pair : pair.slice(0, eq);
+      return names.has(decodeName(name)) ? `${name}=${encodeURIComponent(REDACTED_PLACEHOLDER)}` : pair;
+    })
+    .join('&');
+}
+
+function redactJson(text: string, paths: string[]): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return text;
+  }
+
+  const redacted = replaceAtPaths(parsed, paths, (value) =>
+    value === null || value === undefined ? value : REDACTED_PLACEHOLDER
+  );
+  if (redacted === parsed) {
+    return text;
+  }
+  return JSON.stringify(redacted, null, text.includes('\n') ? 2 : undefined);
+}
+
+/**
+ * Create the redaction applied to recordings before they are persisted
+ * and to live requests before they are matched.
+ *
+ * Every function returns its input unchanged when nothing was redacted,
+ * so requests without secrets keep their existing matching identifiers.
+ */
+export function createRedactor(rules: RedactionRules = {}) {
+  const resolved = { ...DEFAULT_REDACTION_RULES, ...rules };
+  const queryParams = new Set(resolved.queryParams.map((name) => name.toLowerCase()));
+  const formFields = new Set(resolved.formFields.map((name) => name.toLowerCase()));
+  const cookieNames = Array.isArray(resolved.cookies)
+    ? new Set(resolved.cookies.map((name) => name.toLowerCase()))
+    : null;
+
+  function shouldRedactCookie(name: string): boolean {
+    return cookieNames ? cookieNames.has(name.trim().toLowerCase()) : resolved.cookies === true;
+  }
+
+  function redactBody(text: string, paths: string[]): string {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return redactJson(text, paths);
+    }
+    if (formFields.size > 0 && FORM_BODY_REGEX.test(trimmed)) {
+      return redactPairs(text, formFields);
+    }
+    return text;
+  }
+
+  function redactHarPairs(pairs: HarHeader[] | undefined, names: Set<string>): void {
+    for (const pair of pairs ?? []) {
+      if (names.has(pair.name.toLowerCase())) {
+        pair.value = REDACTED_PLACEHOLDER;
+      }
+    }
+  }
+
+  const redactor = {
+    /**
+     * Redact query param values in a URL.
+     */
+    redactUrl(url: string): string {
+      const queryStart = url.indexOf('?');
+      if (queryParams.size === 0 || queryStart === -1) {
+        return url;
+      }
+      const hashStart = url.indexOf('#', queryStart);
+      const queryEnd = hashStart === -1 ? url.length : hashStart;
+      const query = url.slice(queryStart + 1, queryEnd);
+      const redacted = redactPairs(query, queryParams);
+      return redacted === query ? url : url.slice(0, queryStart + 1) + redacted + url.slice(queryEnd);
+    },
+
+    /**
+     * Redact values in a parsed query object (Polly's url.query identifier).
+     */
+    redactQuery(query: Record<string, unknown>): Record<string, unknown> {
+      const keys = Object.keys(query).filter((key) => queryParams.has(key.toLowerCase()));
+      if (keys.length === 0) {
+        return query;
+      }
+      const redacted = { ...query };
+      for (const key of keys) {
+        redacted[key] = REDACTED_PLACEHOLDER;
+      }
+      return redacted;
+    },
+
+    /**
+     * Redact a request body (JSON or form-encoded).
+     */
+    redactRequestBody(body: string): string {
+      return redactBody(body, resolved.requestBodyPaths);
+    },
+
+    /**
+     * Redact a response body (JSON or form-encoded).
+     */
+    redactResponseBody(body: string): string {
+      return redactBody(body, resolved.responseBodyPaths);
+    },
+
+    /**
+     * Redact cookie values in a Cookie header, e.g. `session=abc; theme=dark`.
+     */
+    redactCookieHeader(value: string): string {
+      return value
+        .split(';')
+        .map((pair) => {
+          const eq = pair.indexOf('=');
+          return eq !== -1 && shouldRedactCookie(pair.slice(0, eq))
+            ? `${pair.slice(0, eq)}=${REDACTED_PLACEHOLDER}`
+            : pair;
+        })
+        .join(';');
+    },
+
+    /**
+     * Redact the cookie value in a Set-Cookie header, keeping its attributes.
+     */
+    redactSetCookieHeader(value: string): string {
+      const eq = value.indexOf('=');
+      if (eq === -1 || !shouldRedactCookie(value.slice(0, eq))) {
+        return value;
+      }
+      const attributes = value.indexOf(';', eq);
+      return `${value.slice(0, eq)}=${REDACTED_PLACEHOLDER}${attributes === -1 ? '' : value.slice(attributes)}`;
+    },
+
+    /**
+     * Redact a HAR entry in place before it is persisted.
+     */
+    redactEntry(entry: HarEntry): void {
+      const { request, response } = entry;
+
+      request.url = redactor.redactUrl(request.url);
+      redactHarPairs(request.queryString, queryParams);
+
+      if (request.postData) {
+        if (typeof request.postData.text === 'string' && request.postData._encoding !== 'base64') {
+          request.postData.text = redactor.redactRequestBody(request.postData.text);
+        }
+        redactHarPairs(request.postData.params, formFields);
+      }
+
+      if (typeof response.content?.text === 'string' && response.content.encoding !== 'base64') {
+        response.content.text = redactor.redactResponseBody(response.content.text);
+      }
+
+      for (const header of request.headers ?? []) {
+        if (header.name.toLowerCase() === 'cookie') {
+          header.value = redactor.redactCookieHeader(header.value);
+        }
+      }
+      for (const header of response.headers ?? []) {
+        if (header.name.toLowerCase() === 'set-cookie') {
+          header.value = redactor.redactSetCookieHeader(header.value);
+        }
+      }
+      for (const cookie of [...(request.cookies ?? []), ...(response.cookies ?? [])]) {
+        if (shouldRedactCookie(cookie.name)) {
+          cookie.value = REDACTED_PLACEHOLDER;
+        }
+      }
+    },
+  };
+
+  return redactor;
+}
+
+export type Redactor = ReturnType<typeof createRedactor>;
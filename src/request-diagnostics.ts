@@ -0,0 +1,243 @@
+import { diffJson, renderPlainDiff } from './json-diff';
+import { describeHarEntry, describeRequest, type HarEntry } from './har';
+
+/**
+ * The parts of a live request compared against recordings.
+ */
+export interface DiagnosedRequest {
+  method: string;
+  url: string;
+  body?: string | Buffer;
+  headers?: Record<string, string | string[]>;
+}
+
+export interface DiagnoseOptions {
+  /**
+   * URL normalization used for matching.
+   */
+  normalizeUrl: (url: string) => string;
+
+  /**
+   * Body normalization used for matching (bodyNormalizer output).
+   * Gets the Content-Type of the request the body belongs to.
+   */
+  normalizeBody: (body: string | Buffer, contentType?: string) => string;
+
+  /**
+   * Read the recorded request body of an entry.
+   * Defaults to postData.text.
+   */
+  readBody?: (entry: HarEntry) => string | Buffer | undefined;
+
+  /**
+   * Headers included in matching.
+   */
+  headers: string[];
+
+  /**
+   * Recording file shown in the report.
+   */
+  recordingPath: string;
+
+  /**
+   * Maximum number of candidates to show.
+   * @default 3
+   */
+  limit?: number;
+}
+
+/**
+ * A single part of a request that differs from a recorded entry.
+ */
+export interface RequestDifference {
+  part: 'method' | 'host' | 'path' | 'query' | 'body' | 'header';
+  detail: string;
+}
+
+interface RankedEntry {
+  entry: HarEntry;
+  differences: RequestDifference[];
+  score: number;
+}
+
+// How much each kind of difference counts against similarity
+const WEIGHTS: Record<RequestDifference['part'], number> = {
+  method: 4,
+  host: 4,
+  path: 3,
+  query: 1,
+  body: 1,
+  header: 1,
+};
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function truncate(text: string, max = 80): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function headerValue(headers: Record<string, string | string[]> | undefined, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * List the parts of a request that differ from a recorded entry,
+ * after applying the same normalization used for matching.
+ */
+export function compareRequestToEntry(
+  request: DiagnosedRequest,
+  entry: HarEntry,
+  options: Pick<DiagnoseOptions, 'normalizeUrl' | 'normalizeBody' | 'readBody' | 'headers'>
+): RequestDifference[] {
+  const differences: RequestDifference[] = [];
+
+  if (request.method.toUpperCase() !== entry.request.method.toUpperCase()) {
+    differences.push({ part: 'method', detail: `recorded ${entry.request.method}, got ${request.method}` });
+  }
+
+  const actualUrl = parseUrl(options.normalizeUrl(request.url));
+  const recordedUrl = parseUrl(options.normalizeUrl(entry.request.url));
+
+  if (actualUrl && recordedUrl) {
+    if (actualUrl.host !== recordedUrl.host || actualUrl.protocol !== recordedUrl.protocol) {
+      differences.push({
+        part: 'host',
+        detail: `recorded ${recordedUrl.protocol}//${recordedUrl.host}, got ${actualUrl.protocol}//${actualUrl.host}`,
+      });
+    }
+    if (actualUrl.pathname !== recordedUrl.pathname) {
+      differences.push({ part: 'path', detail: `recorded ${recordedUrl.pathname}, got ${actualUrl.pathname}` });
+    }
+
+    const keys = new Set([...actualUrl.searchParams.keys(), ...recordedUrl.searchParams.keys()]);
+    for (const key of [...keys].sort()) {
+      const recorded = recordedUrl.searchParams.getAll(key).join(',');
+      const actual = actualUrl.searchParams.getAll(key).join(',');
+      if (!recordedUrl.searchParams.has(key)) {
+        differences.push({ part: 'query', detail: `?${key}: not recorded, got "${actual}"` });
+      } else if (!actualUrl.searchParams.has(key)) {
+        differences.push({ part: 'query', detail: `?${key}: recorded "${recorded}", missing` });
+      } else if (recorded !== actual) {
+        differences.push({ part: 'query', detail: `?${key}: recorded "${recorded}", got "${actual}"` });
+      }
+    }
+  } else if (options.normalizeUrl(request.url) !== options.normalizeUrl(entry.request.url)) {
+    differences.push({ part: 'path', detail: `recorded ${entry.request.url}, got ${request.url}` });
+  }
+
+  for (const name of options.headers.map((h) => h.toLowerCase())) {
+    const recorded = entry.request.headers?.find((h) => h.name.toLowerCase() === name)?.value;
+    const actual = headerValue(request.headers, name);
+    if (recorded !== actual) {
+      differences.push({
+        part: 'header',
+        detail: `${name}: recorded ${JSON.stringify(recorded ?? null)}, got ${JSON.stringify(actual ?? null)}`,
+      });
+    }
+  }
+
+  const recordedBody = options.readBody ? options.readBody(entry) : entry.request.postData?.text;
+  if (request.body !== undefined || recordedBody !== undefined) {
+    const actualNormalized =
+      request.body === undefined ? '' : options.normalizeBody(request.body, headerValue(request.headers, 'content-type'));
+    const recordedNormalized =
+      recordedBody === undefined ? '' : options.normalizeBody(recordedBody, entry.request.postData?.mimeType);
+
+    if (actualNormalized !== recordedNormalized) {
+      const actualJson = parseJson(actualNormalized);
+      const recordedJson = parseJson(recordedNormalized);
+
+      if (actualJson.ok && recordedJson.ok) {
+        const changes = diffJson(recordedJson.value, actualJson.value);
+        for (const line of renderPlainDiff(changes).split('\n').filter(Boolean)) {
+          differences.push({ part: 'body', detail: truncate(line, 160) });
+        }
+        if (changes.length === 0) {
+          differences.push({ part: 'body', detail: 'same JSON value, different formatting (try requestMatching.jsonBody)' });
+        }
+      } else {
+        differences.push({
+          part: 'body',
+          detail: `recorded ${JSON.stringify(truncate(recordedNormalized))}, got ${JSON.stringify(truncate(actualNormalized))}`,
+        });
+      }
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Rank recorded entries by similarity to a request. Closest first.
+ */
+export function rankEntries(
+  request: DiagnosedRequest,
+  entries: HarEntry[],
+  options: Pick<DiagnoseOptions, 'normalizeUrl' | 'normalizeBody' | 'readBody' | 'headers'>
+): RankedEntry[] {
+  return entries
+    .map((entry) => {
+      const differences = compareRequestToEntry(request, entry, options);
+      const score = differences.reduce((sum, d) => sum + WEIGHTS[d.part], 0);
+      return { entry, differences, score };
+    })
+    .sort((a, b) => a.score - b.score);
+}
+
+/**
+ * Build a report for a request that has no matching recording,
+ * listing the closest recorded entries and which parts differ.
+ */
+export function diagnoseUnmatchedRequest(
+  request: DiagnosedRequest,
+  entries: HarEntry[],
+  options: DiagnoseOptions
+): string {
+  const body = typeof request.body === 'string' ? request.body : undefined;
+  const lines = [`No recording matches ${describeRequest(request.method, request.url, body)}`];
+
+  if (entries.length === 0) {
+    lines.push(
+      '',
+      `${options.recordingPath} has no recorded requests.`,
+      'Run in real API mode (REAL_APIS=true) to record this test.'
+    );
+    return lines.join('\n');
+  }
+
+  const ranked = rankEntries(request, entries, options).slice(0, options.limit ?? 3);
+
+  lines.push('', `Closest recorded requests in ${options.recordingPath}:`);
+
+  ranked.forEach(({ entry, differences }, i) => {
+    lines.push('', `${i + 1}. ${describeHarEntry(entry)}`);
+    if (differences.length === 0) {
+      lines.push('   identical after normalization (recorded order or an unused header may differ)');
+    }
+    for (const difference of differences) {
+      lines.push(`   ${difference.part.padEnd(6)} ${difference.detail}`);
+    }
+  });
+
+  lines.push('', 'Re-record with REAL_APIS=true if the request changed intentionally.');
+  return lines.join('\n');
+}
@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * The fetch globals of one recorder. Polly's fetch adapter patches these instead of
+ * globalThis, so several recorders can intercept fetch at the same time.
+ */
+export interface FetchContext {
+  fetch?: typeof fetch;
+  Request?: typeof Request;
+  Response?: typeof Response;
+  Headers?: typeof Headers;
+}
+
+// The recorder context of the code currently running, set by runInFetchContext
+const activeContext = new AsyncLocalStorage<FetchContext>();
+
+// Attached contexts, most recent last. Requests made outside runInFetchContext go to the last one.
+const attached: FetchContext[] = [];
+
+let native: { fetch: typeof fetch; Request: typeof Request } | null = null;
+let routedFetch: typeof fetch | null = null;
+let RoutedRequest: typeof Request | null = null;
+
+function currentContext(): FetchContext | undefined {
+  return activeContext.getStore() ?? attached[attached.length - 1];
+}
+
+/**
+ * Replace the global fetch and Request with functions that hand each call
+ * to the context of the code making it.
+ */
+function installRouter(): void {
+  const { fetch: nativeFetch, Request: NativeRequest } = globalThis;
+  native = { fetch: nativeFetch, Request: NativeRequest };
+
+  routedFetch = Object.assign(
+    (input: Parameters<typeof fetch>[0], init?: RequestInit) => (currentContext()?.fetch ?? nativeFetch)(input, init),
+    nativeFetch
+  ) as typeof fetch;
+
+  // Returns the instance of the context's Request, so body options can be read back
+  RoutedRequest = function Request(input: ConstructorParameters<typeof NativeRequest>[0], init?: RequestInit) {
+    return new (currentContext()?.Request ?? NativeRequest)(input, init);
+  } as unknown as typeof Request;
+  RoutedRequest.prototype = NativeRequest.prototype;
+
+  globalThis.fetch = routedFetch;
+  globalThis.Request = RoutedRequest;
+}
+
+function uninstallRouter(): void {
+  // Leave globals alone that were replaced after the router was installed
+  if (native && globalThis.fetch === routedFetch) {
+    globalThis.fetch = native.fetch;
+  }
+  if (native && globalThis.Request === RoutedRequest) {
+    globalThis.Request = native.Request;
+  }
+  native = null;
+  routedFetch = null;
+  RoutedRequest = null;
+}
+
+/**
+ * Route fetch to a context, pointing it at the real fetch globals until Polly patches it.
+ * Returns a function that detaches the context again; the router is removed with the last one.
+ */
+export function attachFetchContext(context: FetchContext): () => void {
+  if (!native) {
+    installRouter();
+  }
+  Object.assign(context, {
+    fetch: native!.fetch,
+    Request: native!.Request,
+    Response: globalThis.Response,
+    Headers: globalThis.Headers,
+  });
+  attached.push(context);
+
+  return () => {
+    const index = attached.indexOf(context);
+    if (index === -1) {
+      return;
+    }
+    attached.splice(index, 1);
+    if (attached.length === 0) {
+      uninstallRouter();
+    }
+  };
+}
+
+/**
+ * Run fn with its fetch calls, including those of timers and promises it starts,
+ * routed to the given context.
+ */
+export function runInFetchContext<T>(context: FetchContext, fn: () => T): T {
+  return activeContext.run(context, fn);
+}
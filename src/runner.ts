@@ -1,7 +1,10 @@
 import { spawn } from 'node:child_process';
 import { stdin as input, stdout as output } from 'node:process';
-import { existsSync } from 'node:fs';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import * as readline from 'node:readline/promises';
+import { DRIFT_REPORT_ENV, readDriftReport } from './contract-drift';
 
 /**
  * Detect the package manager based on lock files.
@@ -20,30 +23,101 @@ function detectPackageManager(): string {
 }
 
 /**
- * Get the default test command based on package manager.
+ * Test runners pollytest has a createPollyTest for.
  */
-function getDefaultTestCommand(): string {
+export type TestRunnerName = 'bun' | 'vitest' | 'jest' | 'node';
+
+interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+function readPackageJson(): PackageJson | null {
+  try {
+    return JSON.parse(readFileSync('package.json', 'utf-8')) as PackageJson;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the test runner from the test script in package.json, then from
+ * the installed dependencies. Defaults to Bun with a bun lock file, node:test otherwise.
+ */
+export function detectTestRunner(): TestRunnerName {
+  const pkg = readPackageJson();
+  const script = pkg?.scripts?.test ?? '';
+
+  if (/\bvitest\b/.test(script)) {
+    return 'vitest';
+  }
+  if (/\bjest\b/.test(script)) {
+    return 'jest';
+  }
+  if (/\bbun test\b/.test(script)) {
+    return 'bun';
+  }
+  if (/\bnode\b.*--test\b/.test(script)) {
+    return 'node';
+  }
+
+  const dependencies = { ...pkg?.dependencies, ...pkg?.devDependencies };
+  if ('vitest' in dependencies) {
+    return 'vitest';
+  }
+  if ('jest' in dependencies) {
+    return 'jest';
+  }
+  return detectPackageManager() === 'bun' ? 'bun' : 'node';
+}
+
+/**
+ * Get the default test command based on package manager and test runner.
+ */
+function getDefaultTestCommand(runner: TestRunnerName): string {
   const pm = detectPackageManager();
-  return `${pm} test`;
+  if (pm !== 'bun') {
+    return `${pm} test`;
+  }
+  if (runner === 'bun') {
+    return 'bun test';
+  }
+  // `bun test` always runs Bun's own test runner, so other runners go through the test script
+  if (readPackageJson()?.scripts?.test) {
+    return 'bun run test';
+  }
+  return runner === 'vitest' ? 'bunx vitest run' : runner === 'jest' ? 'bunx jest' : 'node --test';
 }
 
 export interface RunnerOptions {
   /**
    * Test mode to run in.
    */
-  mode?: 'real' | 'recorded';
+  mode?: 'real' | 'recorded' | 'verify';
 
   /**
    * Custom test command to run.
-   * @default 'bun test'
+   * Defaults to the test command of the detected package manager and test runner.
    */
   testCommand?: string;
 
+  /**
+   * Hosts to record in real mode (e.g. ['stripe', 'github']); others are replayed.
+   * Records every host when empty.
+   */
+  realHosts?: string[];
+
   /**
    * Environment variable name for real mode.
    * @default 'REAL_APIS'
    */
   realModeEnvVar?: string;
+
+  /**
+   * Rewrite mismatching snapshots in recorded mode (sets UPDATE_SNAPSHOTS=true).
+   */
+  updateSnapshots?: boolean;
 }
 
 /**
@@ -56,8 +130,15 @@ export function parseArgs(args: string[] = process.argv.slice(2)): RunnerOptions
     const arg = args[i];
     if (arg === '--real' || arg === '-r') {
       options.mode = 'real';
+    } else if (arg.startsWith('--real=')) {
+      options.mode = 'real';
+      options.realHosts = arg.slice('--real='.length).split(',').filter(Boolean);
     } else if (arg === '--recorded' || arg === '--replay') {
       options.mode = 'recorded';
+    } else if (arg === '--verify') {
+      options.mode = 'verify';
+    } else if (arg === '--update-snapshots' || arg === '-u') {
+      options.updateSnapshots = true;
     } else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -78,32 +159,62 @@ Usage:
   bunx @zdavison/pollytest [command] [options]
 
 Arguments:
-  command            Test command to run (auto-detects package manager)
+  command            Test command to run (auto-detects package manager and
+                     test runner: Bun, Vitest, Jest or node:test)
+
+Commands:
+  scan [dir]         Scan recordings under dir (default: .) for secrets
+  stale [dir] [--max-age 90d]
+                     List recordings under dir by age, or only those older than --max-age
+  mv <from> <to> [dir]
+                     Move the recordings of a renamed test, or of a renamed test file
+                     (alias: rename)
+  doctor [dir]       List recordings no current test uses
 
 Options:
   --real, -r         Run tests in real API mode (hits real APIs)
+  --real=stripe,github
+                     Record only requests to these hosts, replay the rest
   --recorded         Run tests in recorded mode (uses saved recordings)
+  --verify           Run tests against real APIs and report responses that drifted
+                     from the recordings, without updating them
+  --update-snapshots, -u
+                     Rewrite mismatching snapshots without hitting real APIs
   --help, -h         Show this help message
 
 Examples:
   bunx @zdavison/pollytest                      # interactive, auto-detect
   bunx @zdavison/pollytest --real               # record mode
+  bunx @zdavison/pollytest --real=stripe        # re-record Stripe requests only
+  bunx @zdavison/pollytest --recorded -u        # update snapshots from recordings
+  bunx @zdavison/pollytest --verify             # check recordings against real APIs
   bunx @zdavison/pollytest 'pnpm test' --real   # custom command
+  bunx @zdavison/pollytest scan tests/fixtures  # check recordings for secrets
+  bunx @zdavison/pollytest stale tests/fixtures --max-age 90d
+                                                # recordings due for a refresh
+  bunx @zdavison/pollytest mv api.test/fetches-user api.test/fetches-a-user
+                                                # after renaming a test
+  bunx @zdavison/pollytest doctor tests/fixtures
+                                                # find orphaned recordings
 `);
 }
 
-async function promptMode(rl: readline.Interface): Promise<'real' | 'recorded'> {
+async function promptMode(rl: readline.Interface): Promise<'real' | 'recorded' | 'verify'> {
   console.log('\npollytest\n');
   console.log('Choose test mode:');
   console.log('  1. Recorded mode (fast, uses saved API responses)');
-  console.log('  2. Real API mode (hits real APIs, updates recordings)\n');
+  console.log('  2. Real API mode (hits real APIs, updates recordings)');
+  console.log('  3. Verify mode (hits real APIs, reports drift from recordings)\n');
 
-  const answer = await rl.question('Enter 1 or 2 (default: 1): ');
+  const answer = await rl.question('Enter 1, 2 or 3 (default: 1): ');
   const choice = answer.trim() || '1';
 
   if (choice === '2') {
     return 'real';
   }
+  if (choice === '3') {
+    return 'verify';
+  }
 
   return 'recorded';
 }
@@ -134,10 +245,10 @@ export async function runTests(options: RunnerOptions = {}): Promise<void> {
   const cliOptions = parseArgs();
   const mergedOptions = { ...options, ...cliOptions };
 
-  let mode: 'real' | 'recorded';
+  let mode: 'real' | 'recorded' | 'verify';
   let rl: readline.Interface | null = null;
 
-  const testCommand = mergedOptions.testCommand ?? getDefaultTestCommand();
+  const testCommand = mergedOptions.testCommand ?? getDefaultTestCommand(detectTestRunner());
   const realModeEnvVar = mergedOptions.realModeEnvVar ?? 'REAL_APIS';
 
   // Determine mode
@@ -149,22 +260,48 @@ export async function runTests(options: RunnerOptions = {}): Promise<void> {
     mode = await promptMode(rl);
   }
 
-  const env = mode === 'real' ? { [realModeEnvVar]: 'true' } : {};
+  const realHosts = mergedOptions.realHosts ?? [];
+  const env: Record<string, string> =
+    mode === 'real' ? { [realModeEnvVar]: realHosts.length > 0 ? realHosts.join(',') : 'true' } : {};
+  // Drift that tests only warned about, so a passing run doesn't claim there was none
+  const driftReportDir = mode === 'verify' ? mkdtempSync(join(tmpdir(), 'pollytest-verify-')) : null;
+  const driftReport = driftReportDir ? join(driftReportDir, 'drift.tsv') : null;
+  if (driftReport) {
+    env.VERIFY_APIS = 'true';
+    env[DRIFT_REPORT_ENV] = driftReport;
+  }
+  if (mergedOptions.updateSnapshots) {
+    env.UPDATE_SNAPSHOTS = 'true';
+  }
 
   // Run the test command directly via shell
   const exitCode = await runCommand(testCommand, [], env);
+  const drift = driftReport ? readDriftReport(driftReport) : null;
+  if (driftReportDir) {
+    rmSync(driftReportDir, { recursive: true, force: true });
+  }
 
   if (exitCode !== 0) {
-    console.error('\nTests failed');
+    console.error(mode === 'verify' ? '\nTests failed or responses drifted from recordings' : '\nTests failed');
     if (rl) rl.close();
     process.exit(exitCode);
   }
 
   console.log('\nAll tests passed!');
 
-  if (mode === 'real') {
+  if (drift && drift.requests > 0) {
+    console.warn(
+      `\n${drift.requests} live response(s) in ${drift.recordings} recording(s) drifted from the recordings ` +
+        "(reported as warnings, since onDrift is 'warn')."
+    );
+  } else if (mode === 'verify') {
+    console.log('\nLive responses match the recordings.');
+  } else if (mode === 'real') {
     console.log('\nRecordings and snapshots have been updated.');
     console.log('Review changes with: git diff');
+  } else if (mergedOptions.updateSnapshots) {
+    console.log('\nSnapshots have been updated.');
+    console.log('Review changes with: git diff');
   }
 
   if (rl) rl.close();
@@ -0,0 +1,363 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import { joinPath } from './json-diff';
+import { describeHarEntry, findHarFiles, loadHar, type HarEntry } from './har';
+import { REDACTED_PLACEHOLDER } from './redaction';
+
+/**
+ * Allowlist file read from the recordings directory.
+ * One value per line, `/regex/` lines match by pattern, `#` starts a comment.
+ */
+export const SECRET_ALLOWLIST_FILE = 'secret-allowlist.txt';
+
+export type SecretKind =
+  | 'private-key'
+  | 'jwt'
+  | 'api-key'
+  | 'aws-access-key'
+  | 'github-token'
+  | 'env-var'
+  | 'high-entropy';
+
+/**
+ * A value in a HAR entry that looks like a secret.
+ */
+export interface SecretFinding {
+  kind: SecretKind;
+
+  /**
+   * Human-readable reason, e.g. 'JWT' or 'value of $STRIPE_KEY'.
+   */
+  description: string;
+
+  /**
+   * Where the value sits, e.g. `request.headers.x-token` or `response.body $.data.key`.
+   */
+  location: string;
+
+  /**
+   * The entry the value was found in, e.g. `POST https://api.example.com/token`.
+   */
+  entry: string;
+
+  /**
+   * Masked value, safe to print.
+   */
+  preview: string;
+
+  /**
+   * The matched value. Not printed, used for allowlisting.
+   */
+  value: string;
+}
+
+export interface SecretScannerOptions {
+  /**
+   * Values that are not secrets. Strings match exactly, RegExps (or `/regex/` strings) by pattern.
+   */
+  allowlist?: (string | RegExp)[];
+
+  /**
+   * Environment whose secret-looking variables are searched for.
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Minimum Shannon entropy (bits per character) for a 32+ character token to be flagged.
+   * @default 4.2
+   */
+  entropyThreshold?: number;
+}
+
+const TOKEN_PATTERNS: { kind: SecretKind; description: string; regex: RegExp }[] = [
+  {
+    kind: 'private-key',
+    description: 'PEM private key',
+    regex: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g,
+  },
+  { kind: 'jwt', description: 'JWT', regex: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{10,}/g },
+  { kind: 'api-key', description: 'secret key (sk-...)', regex: /\bsk-[\w-]{20,}/g },
+  { kind: 'api-key', description: 'Stripe secret key', regex: /\b[rs]k_live_[A-Za-z0-9]{16,}/g },
+  { kind: 'aws-access-key', description: 'AWS access key ID', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', description: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})/g },
+];
+
+const SECRET_ENV_NAME_REGEX = /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIAL/i;
+const MIN_ENV_VALUE_LENGTH = 8;
+
+// Candidates for the entropy check: long runs of token characters.
+// Very long runs are usually encoded payloads (images, blobs), not credentials.
+const ENTROPY_CANDIDATE_REGEX = /[A-Za-z0-9+_=-]{32,256}/g;
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function maskValue(value: string): string {
+  const firstLine = value.split('\n')[0];
+  return `${firstLine.slice(0, 4)}…(${value.length} chars)`;
+}
+
+function toRegExp(entry: string | RegExp): RegExp | string {
+  if (entry instanceof RegExp) {
+    return entry;
+  }
+  const match = entry.match(/^\/(.+)\/([a-z]*)$/);
+  return match ? new RegExp(match[1], match[2]) : entry;
+}
+
+/**
+ * Read the allowlist file from a recordings directory.
+ * Returns an empty list when the file doesn't exist.
+ */
+export function loadSecretAllowlist(recordingsDir: string): string[] {
+  const file = join(recordingsDir, SECRET_ALLOWLIST_FILE);
+  if (!existsSync(file)) {
+    return [];
+  }
+  return readFileSync(file, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'));
+}
+
+/**
+ * Create a scanner that flags secret-looking values in HAR entries.
+ */
+export function createSecretScanner(options: SecretScannerOptions = {}) {
+  const allowlist = (options.allowlist ?? []).map(toRegExp);
+  const threshold = options.entropyThreshold ?? 4.2;
+  const envSecrets = Object.entries(options.env ?? process.env)
+    .filter(
+      (pair): pair is [string, string] =>
+        SECRET_ENV_NAME_REGEX.test(pair[0]) &&
+        typeof pair[1] === 'string' &&
+        pair[1].length >= MIN_ENV_VALUE_LENGTH &&
+        !/^(?:true|false)$/i.test(pair[1])
+    )
+    // Longest first, so a value that contains another is reported by its own name
+    .sort((a, b) => b[1].length - a[1].length);
+
+  function isAllowed(value: string): boolean {
+    return allowlist.some((entry) => (typeof entry === 'string' ? entry === value : entry.test(value)));
+  }
+
+  function scanText(
+    text: string,
+    location: string,
+    entry: string,
+    findings: SecretFinding[],
+    checkEntropy = true
+  ): void {
+    if (text === '' || text === REDACTED_PLACEHOLDER) {
+      return;
+    }
+
+    const add = (kind: SecretKind, description: string, value: string) => {
+      const duplicate = findings.some((f) => f.location === location && f.value === value);
+      if (!duplicate && !isAllowed(value)) {
+        findings.push({ kind, description, location, entry, preview: maskValue(value), value });
+      }
+    };
+
+    const matched: string[] = [];
+
+    for (const [name, value] of envSecrets) {
+      if (text.includes(value) && !matched.some((m) => m.includes(value))) {
+        matched.push(value);
+        add('env-var', `value of $${name}`, value);
+      }
+    }
+
+    for (const pattern of TOKEN_PATTERNS) {
+      for (const match of text.matchAll(pattern.regex)) {
+        if (!matched.some((m) => m.includes(match[0]) || match[0].includes(m))) {
+          matched.push(match[0]);
+          add(pattern.kind, pattern.description, match[0]);
+        }
+      }
+    }
+
+    if (!checkEntropy) {
+      return;
+    }
+
+    for (const [candidate] of text.matchAll(ENTROPY_CANDIDATE_REGEX)) {
+      if (
+        /[a-z]/.test(candidate) &&
+        /[A-Z]/.test(candidate) &&
+        /\d/.test(candidate) &&
+        !matched.some((m) => m.includes(candidate) || candidate.includes(m))
+      ) {
+        const entropy = shannonEntropy(candidate);
+        if (entropy >= threshold) {
+          add('high-entropy', `high-entropy string (${entropy.toFixed(1)} bits/char)`, candidate);
+        }
+      }
+    }
+  }
+
+  function scanBody(text: string, location: string, entry: string, findings: SecretFinding[]): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      scanText(text, location, entry, findings);
+      return;
+    }
+
+    const walk = (node: unknown, path: string) => {
+      if (typeof node === 'string') {
+        scanText(node, `${location} ${path}`, entry, findings);
+      } else if (Array.isArray(node)) {
+        node.forEach((item, i) => walk(item, joinPath(path, i)));
+      } else if (typeof node === 'object' && node !== null) {
+        for (const [key, child] of Object.entries(node)) {
+          walk(child, joinPath(path, key));
+        }
+      }
+    };
+    walk(parsed, '$');
+  }
+
+  return {
+    /**
+     * Scan the URL, headers and bodies of a HAR entry.
+     */
+    scanEntry(harEntry: HarEntry): SecretFinding[] {
+      const findings: SecretFinding[] = [];
+      const { request, response } = harEntry;
+      const entry = describeHarEntry(harEntry);
+
+      try {
+        const url = new URL(request.url);
+        scanText(url.pathname, 'request.url', entry, findings);
+        for (const [name, value] of url.searchParams) {
+          scanText(value, `request.url ?${name}`, entry, findings);
+        }
+      } catch {
+        scanText(request.url, 'request.url', entry, findings);
+      }
+
+      // Multipart boundaries are random by design
+      for (const header of request.headers ?? []) {
+        const name = header.name.toLowerCase();
+        scanText(header.value, `request.headers.${name}`, entry, findings, name !== 'content-type');
+      }
+      if (typeof request.postData?.text === 'string' && request.postData._encoding !== 'base64') {
+        const boundary = request.postData.mimeType?.match(/boundary="?([^";]+)/i)?.[1];
+        const text = boundary ? request.postData.text.split(boundary).join('') : request.postData.text;
+        scanBody(text, 'request.body', entry, findings);
+      }
+
+      // Response headers are full of opaque IDs (request IDs, CDN tracing, report URLs),
+      // so only cookies get the entropy check there
+      for (const header of response.headers ?? []) {
+        const name = header.name.toLowerCase();
+        scanText(header.value, `response.headers.${name}`, entry, findings, name === 'set-cookie');
+      }
+      if (typeof response.content?.text === 'string' && response.content.encoding !== 'base64') {
+        scanBody(response.content.text, 'response.body', entry, findings);
+      }
+
+      return findings;
+    },
+
+    /**
+     * Scan a message body outside of HAR entries (e.g. a WebSocket message).
+     */
+    scanMessage(text: string, location: string, entry: string): SecretFinding[] {
+      const findings: SecretFinding[] = [];
+      scanBody(text, location, entry, findings);
+      return findings;
+    },
+  };
+}
+
+export type SecretScanner = ReturnType<typeof createSecretScanner>;
+
+/**
+ * Format findings grouped by entry, one line per finding.
+ */
+export function formatSecretFindings(findings: SecretFinding[]): string {
+  const lines: string[] = [];
+  const width = Math.max(...findings.map((f) => f.location.length));
+  let currentEntry: string | null = null;
+
+  for (const finding of findings) {
+    if (finding.entry !== currentEntry) {
+      currentEntry = finding.entry;
+      lines.push(`  ${finding.entry}`);
+    }
+    lines.push(`    ${finding.location.padEnd(width)}  ${finding.description}: ${finding.preview}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Scan every .har file under a directory.
+ * Uses the allowlist file in that directory unless an allowlist is given.
+ */
+export async function scanRecordings(
+  dir: string,
+  options: SecretScannerOptions = {}
+): Promise<{ file: string; findings: SecretFinding[] }[]> {
+  const scanner = createSecretScanner({
+    ...options,
+    allowlist: options.allowlist ?? loadSecretAllowlist(dir),
+  });
+  const results: { file: string; findings: SecretFinding[] }[] = [];
+
+  for (const file of findHarFiles(dir).sort()) {
+    const har = await loadHar(file);
+    const findings = (har?.log.entries ?? []).flatMap((entry) => scanner.scanEntry(entry));
+    if (findings.length > 0) {
+      results.push({ file, findings });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * `pollytest scan [dir]`: scan existing recordings for secrets.
+ * Returns the process exit code (1 when anything was found).
+ */
+export async function runScanCommand(args: string[]): Promise<number> {
+  const dir = resolve(args.find((arg) => !arg.startsWith('-')) ?? '.');
+
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    return 1;
+  }
+
+  const results = await scanRecordings(dir);
+
+  if (results.length === 0) {
+    console.log(`No secrets found in recordings under ${dir}`);
+    return 0;
+  }
+
+  for (const { file, findings } of results) {
+    console.log(`\n${relative(process.cwd(), file)}`);
+    console.log(formatSecretFindings(findings));
+  }
+
+  const total = results.reduce((sum, r) => sum + r.findings.length, 0);
+  console.log(
+    `\nFound ${total} possible secret(s) in ${results.length} recording(s).` +
+      `\nRedact them and re-record, or add false positives to ${join(relative(process.cwd(), dir) || '.', SECRET_ALLOWLIST_FILE)}.`
+  );
+  return 1;
+}
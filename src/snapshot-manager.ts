@@ -1,21 +1,93 @@
-import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { readFile, writeFile, mkdir, readdir, unlink } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { existsSync } from 'node:fs';
+import {
+  diffJson,
+  renderPlainDiff,
+  renderUnifiedDiff,
+  stableStringify,
+  type DiffChange,
+} from './json-diff';
+import {
+  applyIgnorePaths,
+  applyMatchers,
+  type MatcherFailure,
+  type PropertyMatchers,
+} from './snapshot-matchers';
+import { builtinSerializers, type SnapshotSerializer } from './snapshot-serializers';
 
 export interface SnapshotManagerOptions {
   /**
    * Base directory for snapshots (absolute path).
    */
   baseDir: string;
+
+  /**
+   * JSONPath-style paths whose values are never compared, e.g. '$.data.id' or 'items[*].createdAt'.
+   * Values at these paths are stored as "[ignored]".
+   */
+  ignorePaths?: string[];
+
+  /**
+   * Custom serializers. They are tried before the built-ins (binary, json, yaml, text)
+   * when picking a serializer by name or by their test() function.
+   */
+  serializers?: SnapshotSerializer[];
+
+  /**
+   * Name of the serializer used when no serializer's test() accepts the value.
+   * @default 'json'
+   */
+  defaultSerializer?: string;
+}
+
+export interface SaveSnapshotOptions {
+  /**
+   * Name of the snapshot within the recording directory.
+   * @default DEFAULT_SNAPSHOT_NAME
+   */
+  snapshotName?: string;
+
+  /**
+   * Property matchers for non-deterministic values.
+   */
+  matchers?: PropertyMatchers;
+
+  /**
+   * Name of the serializer to use instead of picking one by value.
+   */
+  serializer?: string;
+}
+
+/**
+ * Name of the snapshot stored as `snapshot.<ext>`.
+ * Other snapshots are stored side by side as `snapshot-<name>.<ext>`.
+ */
+export const DEFAULT_SNAPSHOT_NAME = 'default';
+
+/**
+ * Get the file name (without extension) for a snapshot within a recording directory.
+ */
+function snapshotBaseName(snapshotName: string): string {
+  if (!/^[\w.-]+$/.test(snapshotName)) {
+    throw new Error(
+      `Invalid snapshot name: "${snapshotName}". Use letters, numbers, ".", "-" and "_" only.`
+    );
+  }
+  return snapshotName === DEFAULT_SNAPSHOT_NAME ? 'snapshot' : `snapshot-${snapshotName}`;
 }
 
 /**
  * Manages test snapshots for expected outputs.
  *
- * Snapshots are JSON files containing expected test outputs.
+ * Snapshots are files containing expected test outputs, JSON by default.
  * They're useful for snapshot-style testing where you want to
  * capture and compare complex outputs.
  *
+ * Each recording directory can hold several named snapshots.
+ * The default one is `snapshot.<ext>`, others are `snapshot-<name>.<ext>`,
+ * where the extension comes from the serializer that wrote the file.
+ *
  * @example
  * ```typescript
  * const manager = new SnapshotManager();
@@ -26,87 +98,211 @@ export interface SnapshotManagerOptions {
  *   output: 'Hello, world!'
  * });
  *
- * // Load snapshot in replay mode
+ * // Load and compare snapshot in replay mode
  * const snapshot = await manager.load('my-test/case-1');
+ * const result = manager.compare(actual, snapshot);
  * ```
  */
 export class SnapshotManager {
   private baseDir: string;
+  private ignorePaths: string[];
+  private serializers: SnapshotSerializer[];
+  private defaultSerializer: SnapshotSerializer;
 
   constructor(options: SnapshotManagerOptions) {
     this.baseDir = options.baseDir;
+    this.ignorePaths = options.ignorePaths ?? [];
+    this.serializers = [...(options.serializers ?? []), ...builtinSerializers()];
+    this.defaultSerializer = this.getSerializer(options.defaultSerializer ?? 'json');
+  }
+
+  /**
+   * Register a custom serializer. It takes precedence over previously registered ones.
+   */
+  registerSerializer(serializer: SnapshotSerializer): void {
+    this.serializers.unshift(serializer);
+  }
+
+  /**
+   * Get a registered serializer by name.
+   */
+  getSerializer(name: string): SnapshotSerializer {
+    const serializer = this.serializers.find((s) => s.name === name);
+    if (!serializer) {
+      const known = this.serializers.map((s) => s.name).join(', ');
+      throw new Error(`Unknown snapshot serializer: "${name}". Registered: ${known}`);
+    }
+    return serializer;
+  }
+
+  /**
+   * Pick the serializer for a value: the first one whose test() accepts it, else the default.
+   */
+  private selectSerializer(data: unknown, name?: string): SnapshotSerializer {
+    if (name) {
+      return this.getSerializer(name);
+    }
+    return this.serializers.find((s) => s.test?.(data)) ?? this.defaultSerializer;
+  }
+
+  /**
+   * Convert data into the form stored in snapshot files.
+   * Matched and ignored values are replaced with placeholders.
+   */
+  private prepare(
+    data: unknown,
+    serializer: SnapshotSerializer,
+    matchers?: PropertyMatchers,
+    failures: MatcherFailure[] = [],
+  ): unknown {
+    const matched = matchers ? applyMatchers(data, matchers, failures) : data;
+    return applyIgnorePaths(serializer.normalize(matched), this.ignorePaths);
+  }
+
+  /**
+   * Find the file of an existing snapshot, whatever serializer wrote it.
+   */
+  private async find(name: string, snapshotName: string): Promise<{ path: string; serializer: SnapshotSerializer }[]> {
+    const dir = join(this.baseDir, name);
+    const baseName = snapshotBaseName(snapshotName);
+
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    const files = await readdir(dir);
+    return this.serializers.flatMap((serializer) => {
+      const file = `${baseName}.${serializer.extension}`;
+      return files.includes(file) ? [{ path: join(dir, file), serializer }] : [];
+    });
   }
 
   /**
    * Load a snapshot file.
    * Returns null if the snapshot doesn't exist.
    */
-  async load<T = unknown>(name: string): Promise<T | null> {
-    const path = join(this.baseDir, name, 'snapshot.json');
+  async load<T = unknown>(name: string, snapshotName = DEFAULT_SNAPSHOT_NAME): Promise<T | null> {
+    const [found] = await this.find(name, snapshotName);
 
-    if (!existsSync(path)) {
+    if (!found) {
       return null;
     }
 
-    const content = await readFile(path, 'utf-8');
-    return JSON.parse(content) as T;
+    const content = await readFile(found.path);
+    return found.serializer.deserialize(content) as T;
   }
 
   /**
    * Save a snapshot file.
-   * Creates parent directories if needed.
+   * Creates parent directories if needed, and replaces a file of the same
+   * snapshot written by a different serializer.
+   * Throws if a value doesn't satisfy its property matcher.
    */
-  async save(name: string, data: unknown): Promise<void> {
-    const path = join(this.baseDir, name, 'snapshot.json');
+  async save(name: string, data: unknown, options: SaveSnapshotOptions = {}): Promise<void> {
+    const snapshotName = options.snapshotName ?? DEFAULT_SNAPSHOT_NAME;
+    const serializer = this.selectSerializer(data, options.serializer);
+    const failures: MatcherFailure[] = [];
+    const prepared = this.prepare(data, serializer, options.matchers, failures);
+
+    if (failures.length > 0) {
+      const lines = failures.map((f) => `${f.path}: expected ${f.placeholder} got ${JSON.stringify(f.actual)}`);
+      throw new Error(`Snapshot property matchers failed: ${name}\n\n${lines.join('\n')}`);
+    }
+
+    const path = join(this.baseDir, name, `${snapshotBaseName(snapshotName)}.${serializer.extension}`);
     await mkdir(dirname(path), { recursive: true });
 
-    const content = JSON.stringify(data, null, 2);
-    await writeFile(path, content, 'utf-8');
+    for (const existing of await this.find(name, snapshotName)) {
+      if (existing.path !== path) {
+        await unlink(existing.path);
+      }
+    }
+
+    const content = serializer.serialize(prepared);
+    await writeFile(path, content);
   }
 
   /**
    * Check if a snapshot exists.
    */
-  has(name: string): boolean {
-    const path = join(this.baseDir, name, 'snapshot.json');
-    return existsSync(path);
+  has(name: string, snapshotName = DEFAULT_SNAPSHOT_NAME): boolean {
+    const baseName = snapshotBaseName(snapshotName);
+    return this.serializers.some((s) => existsSync(join(this.baseDir, name, `${baseName}.${s.extension}`)));
+  }
+
+  /**
+   * List the names of all snapshots stored for a recording.
+   */
+  async list(name: string): Promise<string[]> {
+    const dir = join(this.baseDir, name);
+
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    const extensions = new Set(this.serializers.map((s) => s.extension));
+    const names = new Set<string>();
+
+    for (const file of await readdir(dir)) {
+      const match = file.match(/^snapshot(?:-(.+))?\.([^.]+)$/);
+      if (match && extensions.has(match[2])) {
+        names.add(match[1] ?? DEFAULT_SNAPSHOT_NAME);
+      }
+    }
+
+    return [...names];
   }
 
   /**
    * Delete a snapshot file.
    */
-  async delete(name: string): Promise<void> {
-    const path = join(this.baseDir, name, 'snapshot.json');
-    if (existsSync(path)) {
-      const { unlink } = await import('node:fs/promises');
+  async delete(name: string, snapshotName = DEFAULT_SNAPSHOT_NAME): Promise<void> {
+    for (const { path } of await this.find(name, snapshotName)) {
       await unlink(path);
     }
   }
 
   /**
    * Compare actual results with a snapshot.
-   * Returns a diff result indicating whether they match.
+   * Values are compared structurally: key order doesn't matter, undefined object
+   * values are ignored and Dates compare equal to their ISO strings.
+   * Values matched by property matchers compare equal to their stored placeholder.
+   * Both sides go through the serializer picked for the actual value.
+   * Use formatCompareResult() to turn a mismatch into a readable message.
    */
-  compare<T>(actual: T, snapshot: T | null): CompareResult {
+  compare<T>(actual: T, snapshot: T | null, matchers?: PropertyMatchers, serializerName?: string): CompareResult {
     if (snapshot === null) {
       return {
         match: false,
         reason: 'No snapshot exists. Run in real mode to create one.',
+        changes: [],
       };
     }
 
-    const actualStr = JSON.stringify(actual, null, 2);
-    const snapshotStr = JSON.stringify(snapshot, null, 2);
+    return this.compareValue(actual, snapshot, matchers, serializerName);
+  }
+
+  /**
+   * Compare actual results with an expected value that exists, even if it is null
+   * (e.g. an inline snapshot literal). See compare().
+   */
+  compareValue(actual: unknown, snapshot: unknown, matchers?: PropertyMatchers, serializerName?: string): CompareResult {
+    const serializer = this.selectSerializer(actual, serializerName);
+    const toComparable = serializer.toComparable ?? ((normalized: unknown) => normalized);
+    const expected = toComparable(this.prepare(snapshot, serializer));
+    const received = toComparable(this.prepare(actual, serializer, matchers));
+    const changes = diffJson(expected, received);
 
-    if (actualStr === snapshotStr) {
-      return { match: true };
+    if (changes.length === 0) {
+      return { match: true, changes };
     }
 
     return {
       match: false,
       reason: 'Snapshot mismatch',
-      expected: snapshotStr,
-      actual: actualStr,
+      changes,
+      expected: typeof expected === 'string' ? expected : stableStringify(expected),
+      actual: typeof received === 'string' ? received : stableStringify(received),
     };
   }
 }
@@ -114,6 +310,42 @@ export class SnapshotManager {
 export interface CompareResult {
   match: boolean;
   reason?: string;
+
+  /**
+   * Path-aware list of differences. Empty when the snapshot matches or doesn't exist.
+   * Set by compare(); results built elsewhere may leave it out.
+   */
+  changes?: DiffChange[];
+
+  /**
+   * Stored snapshot, stringified with sorted keys (or as-is for text snapshots).
+   */
   expected?: string;
+
+  /**
+   * Actual value, stringified with sorted keys (or as-is for text snapshots).
+   */
   actual?: string;
 }
+
+/**
+ * Format a failed comparison as a readable error message.
+ * Uses a colored unified diff on terminals, and a plain list of changed paths
+ * when AGENT=1 or QUIET=1 is set.
+ */
+export function formatCompareResult(name: string, result: CompareResult): string {
+  const header = `${result.reason ?? 'Snapshot mismatch'}: ${name}`;
+
+  if (result.expected === undefined || result.actual === undefined) {
+    return header;
+  }
+
+  const plain = process.env.AGENT === '1' || process.env.QUIET === '1';
+  // Results built without changes fall back to the line diff
+  if (plain && result.changes) {
+    return [header, '', renderPlainDiff(result.changes)].join('\n');
+  }
+
+  const color = !plain && Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+  return [header, '', renderUnifiedDiff(result.expected, result.actual, { color })].join('\n');
+}
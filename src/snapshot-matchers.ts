@@ -0,0 +1,167 @@
+import { joinPath, replaceAtPaths } from './json-diff';
+
+/**
+ * A property matcher used in place of a non-deterministic snapshot value.
+ * Matched values are stored as the placeholder and checked with test() in replay.
+ */
+export interface SnapshotMatcher {
+  readonly __pollytestMatcher: true;
+
+  /**
+   * String stored in the snapshot file instead of the matched value.
+   */
+  readonly placeholder: string;
+
+  /**
+   * Check whether a value satisfies the matcher.
+   */
+  test(value: unknown): boolean;
+}
+
+/**
+ * Property matchers mirroring the shape of the snapshot data.
+ *
+ * @example
+ * ```typescript
+ * await snapshot(data, { user: { id: any(String), createdAt: isoDate() } });
+ * ```
+ */
+export type PropertyMatchers =
+  | { [key: string]: SnapshotMatcher | PropertyMatchers }
+  | (SnapshotMatcher | PropertyMatchers)[];
+
+/**
+ * Placeholder stored for values at ignored paths.
+ */
+export const IGNORED_PLACEHOLDER = '[ignored]';
+
+/**
+ * A value that failed its property matcher.
+ */
+export interface MatcherFailure {
+  path: string;
+  placeholder: string;
+  actual: unknown;
+}
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function createMatcher(placeholder: string, test: (value: unknown) => boolean): SnapshotMatcher {
+  return { __pollytestMatcher: true, placeholder: `[${placeholder}]`, test };
+}
+
+/**
+ * Check whether a value is a SnapshotMatcher.
+ */
+export function isMatcher(value: unknown): value is SnapshotMatcher {
+  return typeof value === 'object' && value !== null && (value as SnapshotMatcher).__pollytestMatcher === true;
+}
+
+/**
+ * Match any value created by the given constructor.
+ * Primitives are matched by type (e.g. any(String) matches 'abc').
+ */
+export function any(constructor: abstract new (...args: never[]) => unknown): SnapshotMatcher {
+  return createMatcher(`any(${constructor.name})`, (value) => {
+    switch (constructor as unknown) {
+      case String:
+        return typeof value === 'string';
+      case Number:
+        return typeof value === 'number';
+      case Boolean:
+        return typeof value === 'boolean';
+      case Object:
+        return typeof value === 'object' && value !== null;
+      case Array:
+        return Array.isArray(value);
+      default:
+        return value instanceof constructor;
+    }
+  });
+}
+
+/**
+ * Match any value except null and undefined.
+ */
+export function anything(): SnapshotMatcher {
+  return createMatcher('anything()', (value) => value !== null && value !== undefined);
+}
+
+/**
+ * Match a Date or an ISO 8601 timestamp string.
+ */
+export function isoDate(): SnapshotMatcher {
+  return createMatcher('isoDate()', (value) => {
+    if (value instanceof Date) {
+      return !Number.isNaN(value.getTime());
+    }
+    return typeof value === 'string' && ISO_DATE_REGEX.test(value) && !Number.isNaN(Date.parse(value));
+  });
+}
+
+/**
+ * Match a string against a regular expression.
+ */
+export function stringMatching(pattern: RegExp | string): SnapshotMatcher {
+  const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+  return createMatcher(`stringMatching(${regex})`, (value) => typeof value === 'string' && regex.test(value));
+}
+
+/**
+ * Replace values matched by property matchers with their placeholders.
+ * Values that fail their matcher are kept as-is and reported in failures,
+ * so they show up in the snapshot diff.
+ */
+export function applyMatchers(
+  value: unknown,
+  matchers: PropertyMatchers | SnapshotMatcher,
+  failures: MatcherFailure[] = [],
+  path = '$'
+): unknown {
+  if (isMatcher(matchers)) {
+    if (matchers.test(value)) {
+      return matchers.placeholder;
+    }
+    failures.push({ path, placeholder: matchers.placeholder, actual: value });
+    return value;
+  }
+
+  if (Array.isArray(matchers) && Array.isArray(value)) {
+    const result = [...value];
+    matchers.forEach((matcher, i) => {
+      if (i < result.length) {
+        result[i] = applyMatchers(result[i], matcher, failures, joinPath(path, i));
+      } else {
+        failures.push({ path: joinPath(path, i), placeholder: describeMatchers(matcher), actual: undefined });
+      }
+    });
+    return result;
+  }
+
+  if (!Array.isArray(matchers) && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, matcher] of Object.entries(matchers)) {
+      if (key in result) {
+        result[key] = applyMatchers(result[key], matcher, failures, joinPath(path, key));
+      } else {
+        failures.push({ path: joinPath(path, key), placeholder: describeMatchers(matcher), actual: undefined });
+      }
+    }
+    return result;
+  }
+
+  failures.push({ path, placeholder: describeMatchers(matchers), actual: value });
+  return value;
+}
+
+function describeMatchers(matchers: PropertyMatchers | SnapshotMatcher): string {
+  return isMatcher(matchers) ? matchers.placeholder : Array.isArray(matchers) ? '[array]' : '[object]';
+}
+
+/**
+ * Replace values at the given paths with IGNORED_PLACEHOLDER.
+ * Paths use the compilePathPattern() syntax. Expects plain JSON data (see toJsonValue).
+ */
+export function applyIgnorePaths(value: unknown, ignorePaths: string[]): unknown {
+  return replaceAtPaths(value, ignorePaths, () => IGNORED_PLACEHOLDER);
+}
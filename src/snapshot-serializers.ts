@@ -0,0 +1,367 @@
+import { createHash } from 'node:crypto';
+import { stableStringify } from './json-diff';
+
+/**
+ * Converts snapshot values to and from snapshot files.
+ *
+ * Values go through normalize() before they are compared or saved,
+ * so both the stored and the actual side are compared in the same form.
+ */
+export interface SnapshotSerializer {
+  /**
+   * Unique name, used to select the serializer (e.g. 'json').
+   */
+  name: string;
+
+  /**
+   * File extension without the dot. Snapshot files are named `snapshot[-<name>].<extension>`.
+   */
+  extension: string;
+
+  /**
+   * Select this serializer automatically for values it accepts.
+   * Serializers without a test are only used when selected by name or as the default.
+   */
+  test?: (value: unknown) => boolean;
+
+  /**
+   * Convert a value into the form that is stored and compared.
+   */
+  normalize: (value: unknown) => unknown;
+
+  /**
+   * Encode a normalized value as file content.
+   */
+  serialize: (normalized: unknown) => string | Uint8Array;
+
+  /**
+   * Decode file content back into a value.
+   */
+  deserialize: (content: Buffer) => unknown;
+
+  /**
+   * Reduce a normalized value to what is actually compared (e.g. a hash).
+   * Defaults to the normalized value itself.
+   */
+  toComparable?: (normalized: unknown) => unknown;
+}
+
+export interface TextSerializerOptions {
+  name?: string;
+  extension?: string;
+  test?: (value: unknown) => boolean;
+}
+
+/**
+ * Convert a value into plain JSON data that keeps what JSON.stringify would lose.
+ *
+ * - Map → `{ "[Map]": [[key, value], ...] }`
+ * - Set → `{ "[Set]": [...] }`
+ * - BigInt → `"123n"`
+ * - Buffer / typed arrays → `{ "[Buffer]": "<base64>" }`
+ * - Class instances → `{ "[ClassName]": { ...ownProperties } }` (unless they define toJSON)
+ * - Date → ISO string, undefined object values are dropped (same as JSON)
+ */
+export function toSnapshotData(value: unknown, ancestors: object[] = []): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (typeof value !== 'object') {
+    // undefined, functions and symbols
+    return undefined;
+  }
+
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+  const nested = [...ancestors, value];
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toSnapshotData(item, nested) ?? null);
+  }
+  if (value instanceof Map) {
+    return {
+      '[Map]': [...value.entries()].map(([k, v]) => [toSnapshotData(k, nested), toSnapshotData(v, nested) ?? null]),
+    };
+  }
+  if (value instanceof Set) {
+    return { '[Set]': [...value].map((item) => toSnapshotData(item, nested) ?? null) };
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return { '[Buffer]': toBuffer(value).toString('base64') };
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return toSnapshotData((value as { toJSON: () => unknown }).toJSON(), nested);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const converted = toSnapshotData(child, nested);
+    if (converted !== undefined) {
+      result[key] = converted;
+    }
+  }
+
+  if (value instanceof Error) {
+    return { [`[${value.name}]`]: { message: value.message, ...result } };
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== null && proto !== Object.prototype) {
+    const className = proto.constructor?.name || 'Object';
+    return { [`[${className}]`]: result };
+  }
+
+  return result;
+}
+
+function toBuffer(value: unknown): Buffer {
+  if (Buffer.isBuffer(value)) return value;
+  if (value instanceof ArrayBuffer) return Buffer.from(value);
+  if (ArrayBuffer.isView(value)) return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  return Buffer.from(String(value), 'utf-8');
+}
+
+/**
+ * Stable-key-order JSON. The default serializer.
+ */
+export function jsonSerializer(): SnapshotSerializer {
+  return {
+    name: 'json',
+    extension: 'json',
+    normalize: (value) => toSnapshotData(value),
+    serialize: (normalized) => stableStringify(normalized),
+    deserialize: (content) => JSON.parse(content.toString('utf-8')),
+  };
+}
+
+/**
+ * YAML-like readable format. Supports the same data as jsonSerializer().
+ */
+export function yamlSerializer(): SnapshotSerializer {
+  return {
+    name: 'yaml',
+    extension: 'yaml',
+    normalize: (value) => toSnapshotData(value),
+    serialize: (normalized) => toYaml(normalized),
+    deserialize: (content) => parseYaml(content.toString('utf-8')),
+  };
+}
+
+/**
+ * Raw text, for outputs like rendered HTML, CSV or Markdown.
+ * Non-string values are converted with String().
+ *
+ * @example
+ * ```typescript
+ * textSerializer({ name: 'html', extension: 'html', test: (v) => typeof v === 'string' && v.startsWith('<') })
+ * ```
+ */
+export function textSerializer(options: TextSerializerOptions = {}): SnapshotSerializer {
+  return {
+    name: options.name ?? 'text',
+    extension: options.extension ?? 'txt',
+    test: options.test,
+    normalize: (value) => (typeof value === 'string' ? value : String(value)),
+    serialize: (normalized) => normalized as string,
+    deserialize: (content) => content.toString('utf-8'),
+  };
+}
+
+/**
+ * Binary data (Buffer, ArrayBuffer, typed arrays) stored as-is and compared by SHA-256 hash.
+ * Selected automatically for binary values.
+ */
+export function binarySerializer(options: Omit<TextSerializerOptions, 'test'> = {}): SnapshotSerializer {
+  return {
+    name: options.name ?? 'binary',
+    extension: options.extension ?? 'bin',
+    test: (value) => value instanceof ArrayBuffer || ArrayBuffer.isView(value),
+    normalize: (value) => toBuffer(value),
+    serialize: (normalized) => normalized as Buffer,
+    deserialize: (content) => content,
+    toComparable: (normalized) => {
+      const buffer = normalized as Buffer;
+      const hash = createHash('sha256').update(buffer).digest('hex');
+      return `sha256:${hash} (${buffer.byteLength} bytes)`;
+    },
+  };
+}
+
+/**
+ * Built-in serializers, in selection order after any custom ones.
+ */
+export function builtinSerializers(): SnapshotSerializer[] {
+  return [binarySerializer(), jsonSerializer(), yamlSerializer(), textSerializer()];
+}
+
+const PLAIN_KEY_REGEX = /^[A-Za-z_$][\w$.-]*$/;
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  const text = String(value);
+  const needsQuotes =
+    text === '' ||
+    text !== text.trim() ||
+    /^(?:null|true|false|~|-?\d[\d.e+-]*)$/i.test(text) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |:$|\s#|[\n\r\t]/.test(text);
+
+  return needsQuotes ? JSON.stringify(text) : text;
+}
+
+function yamlKey(key: string): string {
+  return PLAIN_KEY_REGEX.test(key) ? key : JSON.stringify(key);
+}
+
+function isContainer(value: unknown): value is object {
+  if (Array.isArray(value)) return value.length > 0;
+  return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
+
+function emptyContainer(value: unknown): string | null {
+  if (Array.isArray(value) && value.length === 0) return '[]';
+  if (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0) {
+    return '{}';
+  }
+  return null;
+}
+
+/**
+ * Serialize JSON data as block-style YAML with sorted keys.
+ */
+export function toYaml(value: unknown, indent = ''): string {
+  if (!isContainer(value)) {
+    return emptyContainer(value) ?? yamlScalar(value);
+  }
+
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isContainer(item)) {
+        // Nested block starts on the same line as the dash
+        const nested = toYaml(item, `${indent}  `);
+        lines.push(`${indent}- ${nested.slice(indent.length + 2)}`);
+      } else {
+        lines.push(`${indent}- ${emptyContainer(item) ?? yamlScalar(item)}`);
+      }
+    }
+  } else {
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record).sort()) {
+      const child = record[key];
+      if (isContainer(child)) {
+        lines.push(`${indent}${yamlKey(key)}:`);
+        lines.push(toYaml(child, `${indent}  `));
+      } else {
+        lines.push(`${indent}${yamlKey(key)}: ${emptyContainer(child) ?? yamlScalar(child)}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+/**
+ * Parse the YAML subset written by toYaml().
+ */
+export function parseYaml(source: string): unknown {
+  const lines: YamlLine[] = source
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const indent = line.length - line.trimStart().length;
+      return { indent, text: line.slice(indent) };
+    });
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  let pos = 0;
+
+  function parseBlock(indent: number): unknown {
+    const first = lines[pos];
+    if (first.text === '-' || first.text.startsWith('- ')) {
+      return parseSequence(indent);
+    }
+    if (splitKey(first.text)) {
+      return parseMapping(indent);
+    }
+    pos++;
+    return parseScalar(first.text);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && (lines[pos].text === '-' || lines[pos].text.startsWith('- '))) {
+      const rest = lines[pos].text.slice(2);
+      if (rest.startsWith('- ') || splitKey(rest)) {
+        // Nested block starting on the dash line: re-read it as if it were on its own line
+        lines[pos] = { indent: indent + 2, text: rest };
+        result.push(parseBlock(indent + 2));
+      } else {
+        pos++;
+        result.push(parseScalar(rest));
+      }
+    }
+    return result;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const entry = splitKey(lines[pos].text);
+      if (!entry) {
+        throw new Error(`Invalid YAML snapshot line: "${lines[pos].text}"`);
+      }
+      pos++;
+      if (entry.value === '') {
+        const next = lines[pos];
+        result[entry.key] = next && next.indent > indent ? parseBlock(next.indent) : null;
+      } else {
+        result[entry.key] = parseScalar(entry.value);
+      }
+    }
+    return result;
+  }
+
+  return parseBlock(lines[0].indent);
+}
+
+function splitKey(text: string): { key: string; value: string } | null {
+  if (text.startsWith('"')) {
+    const match = text.match(/^("(?:[^"\\]|\\.)*"):(?: (.*))?$/);
+    return match ? { key: JSON.parse(match[1]), value: match[2] ?? '' } : null;
+  }
+  const match = text.match(/^([A-Za-z_$][\w$.-]*):(?: (.*))?$/);
+  return match ? { key: match[1], value: match[2] ?? '' } : null;
+}
+
+function parseScalar(text: string): unknown {
+  if (text === 'null' || text === '~') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === '[]') return [];
+  if (text === '{}') return {};
+  if (text.startsWith('"')) return JSON.parse(text);
+  if (/^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i.test(text)) return Number(text);
+  return text;
+}
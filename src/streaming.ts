@@ -0,0 +1,238 @@
+import FetchAdapter from '@pollyjs/adapter-fetch';
+import type { Request as PollyRequest } from '@pollyjs/core';
+import { serializeFetchBody } from './bodies';
+import type { FetchContext } from './request-routing';
+
+/**
+ * One chunk of a streamed response body, stored in recording.har as
+ * `response.content._chunks`. Chunks slice `response.content.text` in order.
+ */
+export interface StreamChunk {
+  /**
+   * Length of the chunk in characters of the decoded body text.
+   */
+  size: number;
+
+  /**
+   * Milliseconds since the previous chunk (or since the response headers, for the first one).
+   */
+  delay: number;
+}
+
+export interface StreamingOptions {
+  /**
+   * Response content types recorded chunk by chunk.
+   * @default ['text/event-stream', 'application/x-ndjson']
+   */
+  contentTypes?: string[];
+
+  /**
+   * Replay chunks with their recorded delays. The delays use setTimeout, so with
+   * time control enabled the stream only advances as the test advances time.
+   * When false, chunks are emitted back to back (boundaries are still kept).
+   * @default false
+   */
+  pace?: boolean;
+}
+
+export const DEFAULT_STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson'];
+
+// Chunks recorded or about to be replayed, per Polly request.
+// Keyed by requestArguments: route handlers get a Proxy of the request, but the same arguments object.
+const requestChunks = new WeakMap<object, StreamChunk[]>();
+
+type ChunkedRequest = { requestArguments: unknown };
+
+/**
+ * Get the chunks recorded for (or replayed to) a Polly request.
+ */
+export function getRequestChunks(request: ChunkedRequest): StreamChunk[] | undefined {
+  return requestChunks.get(request.requestArguments as object);
+}
+
+/**
+ * Attach recorded chunks to a Polly request so its response is streamed.
+ */
+export function setRequestChunks(request: ChunkedRequest, chunks: StreamChunk[]): void {
+  requestChunks.set(request.requestArguments as object, chunks);
+}
+
+/**
+ * Check whether a content type is recorded as a stream.
+ */
+export function isStreamingContentType(contentType: string | null | undefined, contentTypes: string[]): boolean {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  return !!mimeType && contentTypes.some((type) => type.toLowerCase() === mimeType);
+}
+
+/**
+ * Split body text into the recorded chunks. If the text no longer adds up to
+ * the recorded sizes (e.g. timestamps were rewritten), the last chunk takes the rest.
+ */
+export function splitChunks(text: string, chunks: StreamChunk[]): { text: string; delay: number }[] {
+  const parts: { text: string; delay: number }[] = [];
+  let offset = 0;
+
+  chunks.forEach((chunk, i) => {
+    const end = i === chunks.length - 1 ? text.length : Math.min(offset + chunk.size, text.length);
+    parts.push({ text: text.slice(offset, end), delay: chunk.delay });
+    offset = end;
+  });
+
+  return parts.filter((part) => part.text !== '');
+}
+
+/**
+ * Create a ReadableStream that emits the body text chunk by chunk.
+ */
+export function createChunkStream(
+  text: string,
+  chunks: StreamChunk[],
+  options: Pick<StreamingOptions, 'pace'> = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const parts = splitChunks(text, chunks);
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const part = parts[index++];
+      if (!part) {
+        controller.close();
+        return;
+      }
+      if (options.pace && part.delay > 0) {
+        // Looked up at call time, so fake timers apply
+        await new Promise((resolve) => setTimeout(resolve, part.delay));
+      }
+      controller.enqueue(encoder.encode(part.text));
+    },
+  });
+}
+
+/**
+ * Read a response body to the end, keeping chunk boundaries and timings.
+ */
+async function readChunks(body: ReadableStream<Uint8Array>): Promise<{ text: string; chunks: StreamChunk[] }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: StreamChunk[] = [];
+  let text = '';
+  let last = Date.now();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const decoded = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    if (decoded) {
+      const now = Date.now();
+      chunks.push({ size: decoded.length, delay: now - last });
+      text += decoded;
+      last = now;
+    }
+    if (done) break;
+  }
+
+  return { text, chunks };
+}
+
+function serializeHeaders(headers: Headers): Record<string, string> {
+  const serialized: Record<string, string> = {};
+  headers.forEach((value, key) => (serialized[key] = value));
+  return serialized;
+}
+
+type StreamingAdapterOptions = { context: FetchContext; streaming?: StreamingOptions };
+
+/**
+ * The fetch adapter, extended to record streamed responses chunk by chunk and
+ * to respond with a ReadableStream that replays those chunks. It also serializes
+ * FormData, Blob and URLSearchParams request bodies, which Polly can't read.
+ * Registered under the 'fetch' id in place of @pollyjs/adapter-fetch.
+ */
+export class StreamingFetchAdapter extends FetchAdapter {
+  // The context's fetch before the adapter patches it, used to pass requests through
+  private passthroughFetch: typeof fetch | null = null;
+
+  private get streamingOptions(): StreamingOptions {
+    return (this.options as StreamingAdapterOptions).streaming ?? {};
+  }
+
+  onConnect() {
+    this.passthroughFetch = (this.options as StreamingAdapterOptions).context.fetch ?? null;
+    super.onConnect();
+  }
+
+  onDisconnect() {
+    super.onDisconnect();
+    this.passthroughFetch = null;
+  }
+
+  async onRequest(pollyRequest: PollyRequest) {
+    await super.onRequest(pollyRequest);
+
+    // Matching, the recording and the real request all use the serialized bytes
+    const serialized = await serializeFetchBody(pollyRequest.body);
+    if (serialized) {
+      (pollyRequest as { body: unknown }).body = serialized.body;
+      if (serialized.contentType && !pollyRequest.getHeader('content-type')) {
+        pollyRequest.setHeader('content-type', serialized.contentType);
+      }
+    }
+  }
+
+  async onFetchResponse(pollyRequest: PollyRequest) {
+    const contentTypes = this.streamingOptions.contentTypes ?? DEFAULT_STREAMING_CONTENT_TYPES;
+    const { options } = pollyRequest.requestArguments as { options: RequestInit };
+
+    const response = await this.passthroughFetch!(pollyRequest.url, {
+      ...options,
+      method: pollyRequest.method,
+      headers: pollyRequest.headers,
+      body: pollyRequest.body,
+    } as RequestInit);
+
+    if (response.body && isStreamingContentType(response.headers.get('content-type'), contentTypes)) {
+      const { text, chunks } = await readChunks(response.body);
+      setRequestChunks(pollyRequest, chunks);
+      return {
+        statusCode: response.status,
+        headers: serializeHeaders(response.headers),
+        body: text,
+        encoding: undefined,
+      };
+    }
+
+    // Same as @pollyjs/adapter-fetch
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const isBinary = !Buffer.from(buffer.toString('utf8'), 'utf8').equals(buffer);
+
+    return {
+      statusCode: response.status,
+      headers: serializeHeaders(response.headers),
+      body: buffer.toString(isBinary ? 'base64' : 'utf8'),
+      encoding: isBinary ? 'base64' : undefined,
+    };
+  }
+
+  async onRespond(pollyRequest: PollyRequest, error?: Error) {
+    const chunks = getRequestChunks(pollyRequest);
+    const response = pollyRequest.response;
+    const text = response?.body;
+
+    if (!chunks || error || !response || typeof text !== 'string') {
+      return super.onRespond(pollyRequest, error);
+    }
+
+    // Pacing only applies to replay: recorded responses have already taken their time
+    const pace = this.streamingOptions.pace && this.polly.mode === 'replay';
+
+    // The fetch adapter passes the body straight to `new Response()`. Polly requests are
+    // frozen, so give it a view of the request whose response body is the stream.
+    const streamedRequest = Object.create(pollyRequest, {
+      response: {
+        value: Object.create(response, { body: { value: createChunkStream(text, chunks, { pace }) } }),
+      },
+    });
+    return super.onRespond(streamedRequest, error);
+  }
+}
@@ -87,7 +87,7 @@ const DEFAULT_TO_FAKE: TimeControlConfig['toFake'] = [
 
 /**
  * Parse a duration string or number into milliseconds.
- * Supports formats like '1 hour', '5 minutes', '30 seconds', '500 ms'
+ * Supports formats like '1 hour', '5 minutes', '30 seconds', '500 ms', '90d'
  */
 export function parseDuration(duration: string | number): number {
   if (typeof duration === 'number') return duration;
@@ -111,6 +111,12 @@ export function parseDuration(duration: string | number): number {
     d: 86400000,
     day: 86400000,
     days: 86400000,
+    w: 604800000,
+    week: 604800000,
+    weeks: 604800000,
+    y: 31536000000,
+    year: 31536000000,
+    years: 31536000000,
   };
 
   const match = duration.match(/^(\d+)\s*(\w+)$/);
@@ -130,6 +136,9 @@ export function parseDuration(duration: string | number): number {
   return parseInt(value, 10) * multiplier;
 }
 
+// Fake timers replace the global clock, so only one controller can be installed at a time
+let installedController: TimeController | null = null;
+
 /**
  * TimeController wraps @sinonjs/fake-timers to provide deterministic time control
  * for tests. In replay mode, time is frozen to the recording time.
@@ -143,6 +152,18 @@ export class TimeController {
     this.config = config;
   }
 
+  /**
+   * Throw if another controller has replaced the global clock, e.g. in a test running concurrently.
+   */
+  static assertClockAvailable(): void {
+    if (installedController) {
+      throw new Error(
+        'Time control is already active in another test. It replaces the global clock, ' +
+          "so tests using timeControl can't run concurrently."
+      );
+    }
+  }
+
   /**
    * Install fake timers, frozen at the given recording time.
    * Only call this in replay mode.
@@ -151,6 +172,7 @@ export class TimeController {
     if (this.clock) {
       throw new Error('TimeController already installed. Call uninstall() first.');
     }
+    TimeController.assertClockAvailable();
 
     this.baseTime = new Date(recordingTime).getTime();
 
@@ -160,6 +182,7 @@ export class TimeController {
       shouldAdvanceTime: false,
       shouldClearNativeTimers: true,
     });
+    installedController = this;
   }
 
   /**
@@ -169,6 +192,7 @@ export class TimeController {
     if (this.clock) {
       this.clock.uninstall();
       this.clock = null;
+      installedController = null;
     }
   }
 
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, test, type TestOptions } from 'vitest';
+import { createPollyTestForRunner, type PollyTestOptions, type TestCaseOverrides, type TestRunner } from './polly-test-core';
+
+export * from './core';
+
+/**
+ * Options for a single pollyTest: Vitest test options plus overrides for this test.
+ */
+export interface PollyTestCaseOptions extends TestOptions, TestCaseOverrides {}
+
+const vitestRunner: TestRunner<TestOptions> = {
+  test: (name, fn, options) => test(name, options ?? {}, fn),
+  only: (name, fn, options) => test.only(name, options ?? {}, fn),
+  skip: (name, fn, options) => test.skip(name, options ?? {}, fn),
+  failing: (name, fn, options) => test.fails(name, options ?? {}, fn),
+  concurrent: (name, fn, options) => test.concurrent(name, options ?? {}, fn),
+  // Vitest never runs todo tests
+  todo: (name) => test.todo(name),
+  if: (condition) => (name, fn, options) => test.runIf(condition)(name, options ?? {}, fn),
+  skipIf: (condition) => (name, fn, options) => test.skipIf(condition)(name, options ?? {}, fn),
+  describe: (name, fn) => describe(name, fn),
+  beforeAll: (fn) => beforeAll(fn),
+  afterAll: (fn) => afterAll(fn),
+};
+
+/**
+ * Creates a pollyTest function that registers Vitest tests.
+ * Same API as the Bun version, with Vitest test options.
+ *
+ * @example
+ * ```typescript
+ * import { createPollyTest } from '@zdavison/pollytest/vitest';
+ *
+ * const pollyTest = createPollyTest({
+ *   recordingsDir: 'tests/fixtures/recordings',
+ * });
+ * ```
+ */
+export function createPollyTest(globalOptions: PollyTestOptions) {
+  return createPollyTestForRunner(vitestRunner, globalOptions);
+}
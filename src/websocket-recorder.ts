@@ -0,0 +1,564 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { Redactor } from './redaction';
+
+/**
+ * Sidecar file written next to recording.har with the test's WebSocket traffic.
+ */
+export const WEBSOCKET_RECORDING_FILE = 'websocket.json';
+
+/**
+ * One recorded WebSocket message.
+ */
+export interface WebSocketFrame {
+  /**
+   * 'send' for client to server, 'receive' for server to client.
+   */
+  direction: 'send' | 'receive';
+
+  /**
+   * Milliseconds since the connection opened.
+   */
+  time: number;
+
+  /**
+   * Message text, or base64 for binary messages.
+   */
+  data: string;
+
+  binary?: boolean;
+}
+
+/**
+ * A recorded WebSocket connection and every message exchanged on it.
+ */
+export interface WebSocketConnectionRecording {
+  url: string;
+
+  /**
+   * Subprotocols requested by the client.
+   */
+  protocols?: string[];
+
+  /**
+   * Subprotocol selected by the server.
+   */
+  protocol: string;
+
+  startedDateTime: string;
+
+  frames: WebSocketFrame[];
+
+  /**
+   * How the connection ended, if it did before the test finished.
+   */
+  close?: {
+    code: number;
+    reason: string;
+    time: number;
+    by: 'client' | 'server';
+  };
+}
+
+export interface WebSocketRecording {
+  connections: WebSocketConnectionRecording[];
+}
+
+export interface WebSocketOptions {
+  /**
+   * Replay server messages with their recorded delays. The delays use setTimeout,
+   * so with time control enabled the test receives them by advancing time.
+   * When false, server messages are sent as soon as the client messages they
+   * follow in the recording have been sent.
+   * @default false
+   */
+  pace?: boolean;
+}
+
+export interface WebSocketRecorderOptions extends WebSocketOptions {
+  mode: 'record' | 'replay';
+
+  /**
+   * Path of the sidecar file (absolute).
+   */
+  file: string;
+
+  /**
+   * Redaction applied to URLs and text messages before they are saved.
+   */
+  redactor: Redactor;
+
+  /**
+   * Normalization used to match connection URLs in replay.
+   */
+  normalizeUrl: (url: string) => string;
+
+  /**
+   * Normalization used to compare client messages in replay.
+   */
+  normalizeMessage: (text: string) => string;
+}
+
+type MessageData = string | ArrayBufferLike | ArrayBufferView | Blob;
+
+// Captured on load, so unpaced replay keeps working while time control fakes timers
+const realSetImmediate = setImmediate;
+
+function encodeData(data: MessageData): Pick<WebSocketFrame, 'data' | 'binary'> | Promise<Pick<WebSocketFrame, 'data' | 'binary'>> {
+  if (typeof data === 'string') {
+    return { data };
+  }
+  if (data instanceof Blob) {
+    return data.arrayBuffer().then((buffer) => ({ data: Buffer.from(buffer).toString('base64'), binary: true }));
+  }
+  const buffer = ArrayBuffer.isView(data)
+    ? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    : Buffer.from(data as ArrayBuffer);
+  return { data: buffer.toString('base64'), binary: true };
+}
+
+function decodeData(frame: WebSocketFrame, binaryType: string): unknown {
+  if (!frame.binary) {
+    return frame.data;
+  }
+  const buffer = Buffer.from(frame.data, 'base64');
+  if (binaryType === 'arraybuffer') {
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  }
+  if (binaryType === 'blob') {
+    return new Blob([buffer]);
+  }
+  return buffer;
+}
+
+/**
+ * Subprotocols from the constructor's second argument: a string, a list,
+ * or Bun's options object.
+ */
+function requestedProtocols(protocols: unknown): string[] {
+  const value =
+    typeof protocols === 'object' && protocols !== null && !Array.isArray(protocols)
+      ? (protocols as { protocols?: unknown }).protocols
+      : protocols;
+  return [value].flat().filter((p): p is string => typeof p === 'string');
+}
+
+function createCloseEvent(init: { code: number; reason: string; wasClean: boolean }): Event {
+  // CloseEvent is missing from older Node versions
+  if (typeof CloseEvent === 'function') {
+    return new CloseEvent('close', init);
+  }
+  return Object.assign(new Event('close'), init);
+}
+
+function preview(frame: Pick<WebSocketFrame, 'data' | 'binary'>): string {
+  const text = frame.binary ? `<${Buffer.from(frame.data, 'base64').length} bytes>` : frame.data;
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+/**
+ * Intercepts the global WebSocket for a test.
+ *
+ * In record mode, connections go to the real server and every message is logged
+ * with its timing, then saved to websocket.json next to recording.har.
+ * In replay mode, a scripted fake server stands in for the recorded connections:
+ * client messages are checked against the recording and the recorded server
+ * messages are sent back in order.
+ */
+export function setupWebSocketRecorder(options: WebSocketRecorderOptions) {
+  const NativeWebSocket = globalThis.WebSocket as typeof WebSocket | undefined;
+  // Connections opened during this test, with the messages exchanged so far
+  const connections: WebSocketConnectionRecording[] = [];
+  // Binary messages still being read from Blobs
+  const pendingFrames: Promise<void>[] = [];
+  let recorded: WebSocketConnectionRecording[] = [];
+  const usedRecordings = new Set<WebSocketConnectionRecording>();
+  const consumedFrames = new Map<WebSocketConnectionRecording, Set<number>>();
+  const mismatches: string[] = [];
+  let installed = false;
+
+  function addFrame(
+    connection: WebSocketConnectionRecording,
+    direction: WebSocketFrame['direction'],
+    data: MessageData,
+    time: number
+  ): { frame: WebSocketFrame; ready?: Promise<void> } {
+    const frame: WebSocketFrame = { direction, time, data: '' };
+    connection.frames.push(frame);
+    const encoded = encodeData(data);
+    if (encoded instanceof Promise) {
+      const ready = encoded.then((result) => void Object.assign(frame, result));
+      pendingFrames.push(ready);
+      return { frame, ready };
+    }
+    Object.assign(frame, encoded);
+    return { frame };
+  }
+
+  function createRecordingWebSocket(Native: typeof WebSocket) {
+    return class RecordingWebSocket extends Native {
+      private connection: WebSocketConnectionRecording;
+      private openedAt: number;
+      private closedByClient = false;
+
+      constructor(url: string | URL, protocolsOrOptions?: unknown) {
+        super(url, protocolsOrOptions as string[] | undefined);
+        const protocols = requestedProtocols(protocolsOrOptions);
+        const connection: WebSocketConnectionRecording = {
+          url: String(url),
+          ...(protocols.length > 0 ? { protocols } : {}),
+          protocol: '',
+          startedDateTime: new Date().toISOString(),
+          frames: [],
+        };
+        connections.push(connection);
+        this.connection = connection;
+        this.openedAt = Date.now();
+
+        // Registered before any listener of the caller, so messages are logged first
+        this.addEventListener('open', () => {
+          this.openedAt = Date.now();
+          connection.protocol = this.protocol;
+        });
+        this.addEventListener('message', (event) => {
+          addFrame(connection, 'receive', event.data, Date.now() - this.openedAt);
+        });
+        this.addEventListener('close', (event) => {
+          connection.close = {
+            code: event.code,
+            reason: event.reason,
+            time: Date.now() - this.openedAt,
+            by: this.closedByClient ? 'client' : 'server',
+          };
+        });
+      }
+
+      send(data: MessageData): void {
+        if (this.readyState === Native.OPEN) {
+          addFrame(this.connection, 'send', data, Date.now() - this.openedAt);
+        }
+        super.send(data as Parameters<WebSocket['send']>[0]);
+      }
+
+      close(code?: number, reason?: string): void {
+        this.closedByClient = true;
+        super.close(code, reason);
+      }
+    };
+  }
+
+  function findRecording(url: string): WebSocketConnectionRecording | undefined {
+    const normalized = options.normalizeUrl(options.redactor.redactUrl(url));
+    return recorded.find(
+      (connection) => !usedRecordings.has(connection) && options.normalizeUrl(connection.url) === normalized
+    );
+  }
+
+  function createReplayWebSocket() {
+    return class ReplayWebSocket extends EventTarget {
+      static readonly CONNECTING = 0;
+      static readonly OPEN = 1;
+      static readonly CLOSING = 2;
+      static readonly CLOSED = 3;
+      readonly CONNECTING = 0;
+      readonly OPEN = 1;
+      readonly CLOSING = 2;
+      readonly CLOSED = 3;
+
+      readonly url: string;
+      readyState = 0;
+      protocol = '';
+      extensions = '';
+      bufferedAmount = 0;
+      binaryType: string = typeof Bun === 'undefined' ? 'blob' : 'nodebuffer';
+
+      onopen: ((event: Event) => void) | null = null;
+      onmessage: ((event: MessageEvent) => void) | null = null;
+      onclose: ((event: Event) => void) | null = null;
+      onerror: ((event: Event) => void) | null = null;
+
+      private recording: WebSocketConnectionRecording;
+      private connection: WebSocketConnectionRecording;
+      private consumed: Set<number>;
+      private cancelScheduled: (() => void) | null = null;
+      private openedAt = 0;
+
+      constructor(url: string | URL, protocolsOrOptions?: unknown) {
+        super();
+        this.url = String(url);
+
+        const recording = findRecording(this.url);
+        if (!recording) {
+          const available = recorded.filter((c) => !usedRecordings.has(c)).map((c) => `  ${c.url}`);
+          throw new Error(
+            `No recorded WebSocket connection for ${this.url} in ${options.file}\n` +
+              (available.length > 0 ? `Unused recorded connections:\n${available.join('\n')}\n` : '') +
+              'Re-record with REAL_APIS=true.'
+          );
+        }
+        usedRecordings.add(recording);
+        this.recording = recording;
+        this.consumed = new Set();
+        consumedFrames.set(recording, this.consumed);
+
+        const requested = requestedProtocols(protocolsOrOptions);
+        this.connection = {
+          url: this.url,
+          ...(requested.length > 0 ? { protocols: requested } : {}),
+          protocol: recording.protocol,
+          startedDateTime: new Date().toISOString(),
+          frames: [],
+        };
+        connections.push(this.connection);
+
+        // Open once the caller has attached its listeners
+        queueMicrotask(() => {
+          if (this.readyState !== this.CONNECTING) return;
+          this.readyState = this.OPEN;
+          this.protocol = recording.protocol;
+          this.openedAt = Date.now();
+          this.emit(new Event('open'));
+          this.pump();
+        });
+      }
+
+      send(data: MessageData): void {
+        if (this.readyState === this.CONNECTING) {
+          throw new DOMException('WebSocket is not open', 'InvalidStateError');
+        }
+        if (this.readyState !== this.OPEN) {
+          return;
+        }
+
+        const { frame, ready } = addFrame(this.connection, 'send', data, Date.now() - this.openedAt);
+        const check = () => {
+          this.checkSent(frame);
+          this.pump();
+        };
+        if (ready) {
+          ready.then(check);
+        } else {
+          check();
+        }
+      }
+
+      close(code = 1000, reason = ''): void {
+        if (this.readyState === this.CLOSING || this.readyState === this.CLOSED) {
+          return;
+        }
+        this.readyState = this.CLOSING;
+        this.cancelScheduled?.();
+        this.connection.close = { code, reason, time: Date.now() - this.openedAt, by: 'client' };
+        queueMicrotask(() => this.finish(code, reason, true));
+      }
+
+      private emit(event: Event): void {
+        this.dispatchEvent(event);
+        const handler = (this as unknown as Record<string, unknown>)[`on${event.type}`];
+        if (typeof handler === 'function') {
+          handler.call(this, event);
+        }
+      }
+
+      private finish(code: number, reason: string, wasClean: boolean): void {
+        this.readyState = this.CLOSED;
+        if (!wasClean) {
+          this.emit(new Event('error'));
+        }
+        this.emit(createCloseEvent({ code, reason, wasClean }));
+      }
+
+      /**
+       * Match a client message against the next recorded client message.
+       * Server messages waiting on it are sent either way, so one mismatch
+       * doesn't stall the rest of the conversation.
+       */
+      private checkSent(frame: WebSocketFrame): void {
+        const frames = this.recording.frames;
+        const index = frames.findIndex((f, i) => f.direction === 'send' && !this.consumed.has(i));
+        const label = `${this.url} (message ${this.connection.frames.filter((f) => f.direction === 'send').length})`;
+
+        if (index === -1) {
+          mismatches.push(`${label}: unexpected message\n    received: ${preview(frame)}`);
+          return;
+        }
+
+        this.consumed.add(index);
+        const expected = frames[index];
+        const matches =
+          expected.binary || frame.binary
+            ? expected.binary === frame.binary && expected.data === frame.data
+            : options.normalizeMessage(expected.data) === options.normalizeMessage(frame.data);
+
+        if (!matches) {
+          mismatches.push(`${label}: message differs\n    expected: ${preview(expected)}\n    received: ${preview(frame)}`);
+        }
+      }
+
+      /**
+       * Send the next recorded server message once every client message before it was sent,
+       * then the recorded close.
+       */
+      private pump(): void {
+        if (this.readyState !== this.OPEN || this.cancelScheduled) {
+          return;
+        }
+
+        const frames = this.recording.frames;
+        const index = frames.findIndex((_, i) => !this.consumed.has(i));
+        const previousTime = index > 0 ? frames[index - 1].time : 0;
+
+        if (index === -1) {
+          const close = this.recording.close;
+          if (close?.by === 'server') {
+            const last = frames.length > 0 ? frames[frames.length - 1].time : 0;
+            this.schedule(close.time - last, () => {
+              this.readyState = this.CLOSING;
+              this.connection.close = { ...close, time: Date.now() - this.openedAt };
+              this.finish(close.code, close.reason, close.code !== 1006);
+            });
+          }
+          return;
+        }
+
+        const frame = frames[index];
+        if (frame.direction === 'send') {
+          return;
+        }
+
+        this.schedule(frame.time - previousTime, () => {
+          this.consumed.add(index);
+          this.connection.frames.push({ ...frame, time: Date.now() - this.openedAt });
+          this.emit(new MessageEvent('message', { data: decodeData(frame, this.binaryType) }));
+          this.pump();
+        });
+      }
+
+      private schedule(delay: number, fn: () => void): void {
+        const run = () => {
+          this.cancelScheduled = null;
+          if (this.readyState === this.OPEN) fn();
+        };
+        if (options.pace) {
+          // Looked up at call time, so fake timers apply
+          const timer = setTimeout(run, Math.max(delay, 0));
+          this.cancelScheduled = () => clearTimeout(timer);
+        } else {
+          const immediate = realSetImmediate(run);
+          this.cancelScheduled = () => clearImmediate(immediate);
+        }
+      }
+    };
+  }
+
+  /**
+   * The recording as it is saved: URLs and text messages redacted.
+   */
+  function getRecording(): WebSocketRecording {
+    const { redactor } = options;
+    return {
+      connections: connections.map((connection) => ({
+        ...connection,
+        url: redactor.redactUrl(connection.url),
+        frames: connection.frames.map((frame) => {
+          if (frame.binary) return frame;
+          const redact = frame.direction === 'send' ? redactor.redactRequestBody : redactor.redactResponseBody;
+          return { ...frame, data: redact(frame.data) };
+        }),
+      })),
+    };
+  }
+
+  return {
+    /**
+     * Replace the global WebSocket. In replay mode, loads the recorded connections first.
+     */
+    async install() {
+      if (options.mode === 'record') {
+        if (!NativeWebSocket) {
+          throw new Error('Recording WebSockets needs a global WebSocket (Bun, Node 22+ or a polyfill).');
+        }
+        globalThis.WebSocket = createRecordingWebSocket(NativeWebSocket) as unknown as typeof WebSocket;
+      } else {
+        if (existsSync(options.file)) {
+          const recording = JSON.parse(await readFile(options.file, 'utf-8')) as WebSocketRecording;
+          recorded = recording.connections ?? [];
+        }
+        globalThis.WebSocket = createReplayWebSocket() as unknown as typeof WebSocket;
+      }
+      installed = true;
+    },
+
+    /**
+     * Restore the global WebSocket.
+     */
+    uninstall() {
+      if (!installed) return;
+      if (NativeWebSocket) {
+        globalThis.WebSocket = NativeWebSocket;
+      } else {
+        delete (globalThis as { WebSocket?: unknown }).WebSocket;
+      }
+      installed = false;
+    },
+
+    /**
+     * Connections opened so far in this test, with the messages exchanged on them.
+     */
+    getConnections(): WebSocketConnectionRecording[] {
+      return connections;
+    },
+
+    /**
+     * Recorded connections, as loaded in replay mode.
+     */
+    getRecordedConnections(): WebSocketConnectionRecording[] {
+      return recorded;
+    },
+
+    getRecording,
+
+    /**
+     * Write the recording to the sidecar file.
+     * Removes a stale file when the test opened no connections.
+     */
+    async save() {
+      await Promise.all(pendingFrames);
+      if (connections.length === 0) {
+        await rm(options.file, { force: true });
+        return;
+      }
+      await mkdir(dirname(options.file), { recursive: true });
+      await writeFile(options.file, JSON.stringify(getRecording(), null, 2) + '\n');
+    },
+
+    /**
+     * Client messages that didn't match the recording.
+     */
+    getMismatches(): string[] {
+      return mismatches;
+    },
+
+    /**
+     * Recorded connections and client messages the test never got to.
+     */
+    getUnused(): string[] {
+      const unused: string[] = [];
+      for (const connection of recorded) {
+        const consumed = consumedFrames.get(connection);
+        if (!consumed) {
+          unused.push(`WebSocket ${connection.url}`);
+          continue;
+        }
+        const remaining = connection.frames.filter((f, i) => f.direction === 'send' && !consumed.has(i)).length;
+        if (remaining > 0) {
+          unused.push(`WebSocket ${connection.url} (${remaining} client message(s) never sent)`);
+        }
+      }
+      return unused;
+    },
+  };
+}
+
+export type WebSocketRecorder = ReturnType<typeof setupWebSocketRecorder>;